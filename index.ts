@@ -6,13 +6,48 @@
 
 // Components (for Astro users)
 export { default as ParticleImageViewer } from './src/components/ParticleImageViewer.astro';
+export { default as ParticleImage } from './src/components/ParticleImage.astro';
 
 // Types
 export type { Props as ParticleImageViewerProps } from './src/components/ParticleImageViewer.astro';
+export type { GalleryImage, ImageSource } from './src/components/gallery-images';
+export type { PlaceholderKind } from './src/components/placeholder';
 
 // Library exports (for advanced usage)
 export { ParticleViewer } from './src/lib/particle-viewer/ParticleViewer';
-export type { ParticleViewerConfig } from './src/lib/particle-viewer/ParticleViewer';
+export type { ParticleViewerConfig, NavigationMode } from './src/lib/particle-viewer/ParticleViewer';
+export type { InteractionMode } from './src/lib/particle-viewer/pointer-field';
+export type { PaginationStyle } from './src/lib/particle-viewer/pagination';
+export type { QualitySetting, QualityTier } from './src/lib/particle-viewer/quality';
+export { SimpleLightbox } from './src/lib/particle-viewer/SimpleLightbox';
+export type { SimpleLightboxConfig } from './src/lib/particle-viewer/SimpleLightbox';
+
+// Lifecycle events and state
+export type {
+    ViewerAnimation,
+    ViewerEventDetail,
+    ViewerEventMap,
+    ViewerEventName,
+    ViewerEventListener,
+    ViewerState,
+    ViewerController,
+} from './src/lib/particle-viewer/events';
+
+// Keyboard shortcuts
+export { DEFAULT_KEYMAP } from './src/lib/particle-viewer/keyboard';
+export type { Keymap, ShortcutAction } from './src/lib/particle-viewer/keyboard';
+
+// Deep linking
+export { ViewerHistory } from './src/lib/particle-viewer/history';
+export type { HistoryMode } from './src/lib/particle-viewer/history';
+
+// Transition effects
+export { registerEffect, getEffectNames, DEFAULT_EFFECT } from './src/lib/particle-viewer/effects';
+export type { ParticleEffect, EffectAttribute, EffectAttributeContext } from './src/lib/particle-viewer/effects';
+
+// Labels and localization
+export { registerLabels, resolveLabels, formatLabel, getLocales } from './src/lib/particle-viewer/i18n';
+export type { ViewerLabels } from './src/lib/particle-viewer/i18n';
 
 // Performance detection utilities
 export {
@@ -21,4 +56,8 @@ export {
     isLowPerformance,
     isWebGLSupported,
     getFallbackReason,
+    isDataSaving,
+    isLowEndDevice,
+    resolveViewerMode,
 } from './src/lib/particle-viewer/performance';
+export type { FallbackPolicy, ViewerMode, ViewerModeDecision, ViewerModeReason } from './src/lib/particle-viewer/performance';
@@ -0,0 +1,81 @@
+import type { ImageMetadata } from 'astro';
+import type { PlaceholderKind } from './placeholder';
+
+export interface ImageSource {
+	srcset: string;
+	media?: string;
+	type?: string;
+}
+
+/**
+ * Gallery item for the `images` prop of ParticleImageViewer
+ */
+export interface GalleryImage {
+	src: string | ImageMetadata;
+	alt: string;
+	hdSrc?: string | ImageMetadata;
+	width?: string | number;
+	height?: string | number;
+	/** Caption markup; sanitized by the viewer */
+	caption?: string;
+	sources?: ImageSource[];
+	videoSrc?: string;
+	placeholder?: PlaceholderKind;
+}
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+/**
+ * Whether 'value' is an image imported through astro:assets
+ */
+export function isImageMetadata(value: unknown): value is ImageMetadata {
+	if (typeof value !== 'object' || value === null) return false;
+	const image = value as ImageMetadata;
+	return typeof image.src === 'string' && image.width > 0 && image.height > 0;
+}
+
+const isImageSource = (value: unknown) => isNonEmptyString(value) || isImageMetadata(value);
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+const PLACEHOLDER_KINDS: unknown[] = ['blur', 'color', 'none'];
+
+const isDimension = (value: unknown) => value === undefined || Number(value) > 0;
+
+/**
+ * Checks the `images` prop at build time, so malformed CMS data fails the
+ * build with the offending entry instead of rendering broken buttons
+ */
+export function validateImages(images: unknown): GalleryImage[] {
+	if (!Array.isArray(images)) {
+		throw new TypeError('ParticleImageViewer: `images` must be an array');
+	}
+
+	images.forEach((image, index) => {
+		const fail = (message: string) => {
+			throw new TypeError(`ParticleImageViewer: images[${index}] ${message}`);
+		};
+
+		if (typeof image !== 'object' || image === null) fail('must be an object');
+		if (!isImageSource(image.src)) fail('needs a non-empty `src` or an imported image');
+		if (typeof image.alt !== 'string') fail('needs an `alt` text (use "" only for decorative images)');
+		if (image.hdSrc !== undefined && !isImageSource(image.hdSrc)) fail('has an empty or invalid `hdSrc`');
+		if (!isOptionalString(image.videoSrc) || image.videoSrc === '') fail('has an empty or invalid `videoSrc`');
+		if (!isOptionalString(image.caption)) fail('has a `caption` that is not a string');
+		if (!isDimension(image.width)) fail('has a `width` that is not a positive number');
+		if (!isDimension(image.height)) fail('has a `height` that is not a positive number');
+		if (image.placeholder !== undefined && !PLACEHOLDER_KINDS.includes(image.placeholder)) {
+			fail("has a `placeholder` other than 'blur', 'color' or 'none'");
+		}
+
+		if (image.sources !== undefined) {
+			if (!Array.isArray(image.sources)) fail('has `sources` that are not an array');
+			image.sources.forEach((source: unknown, sourceIndex: number) => {
+				const valid = typeof source === 'object' && source !== null && isNonEmptyString((source as ImageSource).srcset);
+				if (!valid) fail(`has sources[${sourceIndex}] without a \`srcset\``);
+			});
+		}
+	});
+
+	return images as GalleryImage[];
+}
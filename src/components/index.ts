@@ -1 +1,2 @@
 export { default as ParticleImageViewer } from './ParticleImageViewer.astro';
+export { default as ParticleImage } from './ParticleImage.astro';
@@ -0,0 +1,50 @@
+import type { ImageMetadata } from 'astro';
+
+/**
+ * - 'blur': a 16px version of the image over its dominant color
+ * - 'color': the dominant color only
+ * - 'none': no placeholder
+ */
+export type PlaceholderKind = 'blur' | 'color' | 'none';
+
+const PLACEHOLDER_SIZE = 16;
+
+// The same image often appears in several galleries of a page
+const cache = new Map<string, Promise<string | null>>();
+
+async function createPlaceholder(path: string, kind: PlaceholderKind): Promise<string | null> {
+	try {
+		// Optional peer dependency: without it the images have no placeholder
+		const { default: sharp } = await import('sharp');
+		const { dominant } = await sharp(path).stats();
+		const color = `rgb(${dominant.r} ${dominant.g} ${dominant.b})`;
+		if (kind === 'color') return color;
+
+		const buffer = await sharp(path)
+			.resize(PLACEHOLDER_SIZE, PLACEHOLDER_SIZE, { fit: 'inside' })
+			.webp({ quality: 50 })
+			.toBuffer();
+		return `${color} url(data:image/webp;base64,${buffer.toString('base64')}) center / cover no-repeat`;
+	} catch (error) {
+		console.warn(`ParticleImage: could not create a placeholder for ${path}`, error);
+		return null;
+	}
+}
+
+/**
+ * CSS background previewing an imported image while it loads, computed at
+ * build time. Null for 'none' or when the image has no file on disk
+ */
+export function getPlaceholder(image: ImageMetadata, kind: PlaceholderKind): Promise<string | null> {
+	// Set by Astro on imported images during the build
+	const path = (image as ImageMetadata & { fsPath?: string }).fsPath;
+	if (kind === 'none' || !path) return Promise.resolve(null);
+
+	const key = `${kind}:${path}`;
+	let placeholder = cache.get(key);
+	if (!placeholder) {
+		placeholder = createPlaceholder(path, kind);
+		cache.set(key, placeholder);
+	}
+	return placeholder;
+}
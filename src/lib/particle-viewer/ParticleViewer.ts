@@ -9,9 +9,45 @@ import type {
 	ShaderMaterial,
 	MeshBasicMaterial,
 } from 'three';
-import vertexShader from './shaders/particles.vert?raw';
-import fragmentShader from './shaders/particles.frag?raw';
 import { isLowPerformance, prefersReducedMotion } from './performance';
+import { DEFAULT_EFFECT, buildEffectShaders, resolveEffect } from './effects';
+import { ViewerEventEmitter } from './events';
+import type { ViewerEventDetail, ViewerEventListener, ViewerEventName, ViewerState } from './events';
+import { ViewerHistory } from './history';
+import type { HistoryMode } from './history';
+import { ZoomController } from './zoom';
+import type { ZoomState } from './zoom';
+import { Slideshow } from './slideshow';
+import { SwipeGestures } from './gestures';
+import { TextureCache } from './texture-cache';
+import { LoadingStatus } from './loading-status';
+import { Pagination } from './pagination';
+import type { PaginationStyle } from './pagination';
+import { PointerField, createPointerUniforms } from './pointer-field';
+import { applyLabels, formatLabel, resolveLabels } from './i18n';
+import {
+	getItemMedia,
+	getVideoSource,
+	getStillSource,
+	getMediaSource,
+	getIntrinsicSize,
+	getMediaLabel,
+	getPlaceholder,
+	createVideo,
+	waitForVideo,
+} from './media';
+import type { GalleryMedia } from './media';
+import { VideoControls } from './video-controls';
+import { getCaptionContent, renderCaption } from './caption';
+import { ModalDialog } from './dialog';
+import { ItemObserver } from './item-observer';
+import { KeyboardShortcuts, ZOOM_STEP, exitFullscreen, toggleFullscreen } from './keyboard';
+import type { Keymap } from './keyboard';
+import { rendererManager } from './renderer-manager';
+import { AdaptiveQuality } from './quality';
+import type { QualitySetting } from './quality';
+import type { ViewerLabels } from './i18n';
+import type { InteractionMode } from './pointer-field';
 
 export interface ParticleViewerConfig {
 	segments?: number;
@@ -21,8 +57,47 @@ export interface ParticleViewerConfig {
 	crossfadeStart?: number;
 	srcAttribute?: string;
 	maxWidth?: number;
+	effect?: string;
+	history?: HistoryMode | false;
+	historyKey?: string;
+	zoom?: boolean;
+	maxZoom?: number;
+	slideshow?: boolean;
+	autoplay?: boolean;
+	slideshowInterval?: number;
+	slideshowLoop?: boolean;
+	textureCacheSize?: number;
+	preload?: boolean;
+	navigationMode?: NavigationMode;
+	pagination?: PaginationStyle;
+	/** Locale of the labels; defaults to the page's `lang` */
+	locale?: string;
+	labels?: Partial<ViewerLabels>;
+	captionCounter?: boolean;
+	interactive?: boolean;
+	interactionMode?: InteractionMode;
+	interactionRadius?: number;
+	interactionStrength?: number;
+	/** Rendering quality; 'auto' measures the frame rate and adapts */
+	quality?: QualitySetting;
+	/** Keys of the shortcuts, replacing the defaults per action; false disables one */
+	keymap?: Keymap;
+	/** Refresh automatically when items matching the selector are added or removed */
+	observe?: boolean;
 }
 
+/**
+ * How navigation requested during a transition is handled: 'retarget' heads
+ * straight for the latest requested image, 'queue' plays every request in order
+ */
+export type NavigationMode = 'retarget' | 'queue';
+
+/**
+ * closed → loading → opening → open → loading → dispersing → reassembling → open ...
+ * close() may interrupt any state and reverses from the current progress.
+ */
+type AnimationState = 'closed' | 'loading' | 'opening' | 'open' | 'dispersing' | 'reassembling' | 'closing';
+
 const defaultConfig: Required<ParticleViewerConfig> = {
 	segments: 180,
 	padding: 1.1,
@@ -31,18 +106,63 @@ const defaultConfig: Required<ParticleViewerConfig> = {
 	crossfadeStart: 0.2,
 	srcAttribute: 'src',
 	maxWidth: 0,
+	effect: DEFAULT_EFFECT,
+	history: false,
+	historyKey: '',
+	zoom: true,
+	maxZoom: 4,
+	slideshow: false,
+	autoplay: false,
+	slideshowInterval: 5000,
+	slideshowLoop: true,
+	textureCacheSize: 96,
+	preload: true,
+	navigationMode: 'retarget',
+	pagination: 'dots',
+	locale: '',
+	labels: {},
+	captionCounter: false,
+	interactive: false,
+	interactionMode: 'repel',
+	interactionRadius: 120,
+	interactionStrength: 1,
+	quality: 'auto',
+	keymap: {},
+	observe: false,
 };
 
 type ThreeModule = typeof import('./three-proxy');
 
+const noop = () => {};
+
+// Blurred, darkened backdrop behind the particles
+const BACKGROUND_STYLE: Partial<CSSStyleDeclaration> = {
+	position: 'absolute',
+	top: '0',
+	left: '0',
+	width: '100%',
+	height: '100%',
+	objectFit: 'cover',
+	filter: 'blur(30px) brightness(0.4)',
+	transform: 'scale(1.1)',
+	willChange: 'opacity',
+	pointerEvents: 'none',
+	zIndex: '-1',
+};
+
 export class ParticleViewer {
 	private container!: HTMLElement;
 	private canvas!: HTMLCanvasElement;
 	private closeButton!: HTMLButtonElement;
 	private prevButton!: HTMLButtonElement;
 	private nextButton!: HTMLButtonElement;
+	private slideshowButton: HTMLButtonElement | null = null;
 	private captionElement: HTMLElement | null = null;
 	private paginationElement: HTMLElement | null = null;
+	private pagination: Pagination | null = null;
+	private labels!: ViewerLabels;
+	private videoControls!: VideoControls;
+	private imageSelector: string;
 	private images!: NodeListOf<HTMLElement>;
 	private scene: Scene | null = null;
 	private clock: Clock | null = null;
@@ -50,31 +170,51 @@ export class ParticleViewer {
 	private renderer: WebGLRenderer | null = null;
 	private currentPoints: Points | null = null;
 	private currentMesh: Mesh | null = null;
-	private isAnimating: boolean = false;
-	private sourceImage: HTMLImageElement | null = null;
+	private state: AnimationState = 'closed';
+	private sourceMedia: GalleryMedia | null = null;
 	private animationId: number | null = null;
 	private renderId: number | null = null;
 	private currentIndex: number = 0;
 	private config: Required<ParticleViewerConfig>;
 	private imageWidth: number = 0;
 	private imageHeight: number = 0;
-	private paginationStartIndex: number = 0;
-	private maxVisibleDots: number = 5;
-	private dotsContainer: HTMLElement | null = null;
-	private prevPageButton: HTMLButtonElement | null = null;
-	private nextPageButton: HTMLButtonElement | null = null;
+	private pointSize: number = 2.0;
+	private events!: ViewerEventEmitter;
+	private pendingIndices: number[] = [];
+	private transitionTarget: number | null = null;
+	private navigation: Promise<void> | null = null;
+	private closing: Promise<void> | null = null;
+	private finishAnimation: ((completed: boolean) => void) | null = null;
+	private history: ViewerHistory | null = null;
+	private zoom: ZoomController | null = null;
+	private slideshow: Slideshow | null = null;
+	private swipe: SwipeGestures | null = null;
+	private itemObserver: ItemObserver | null = null;
+	// Videos whose priming play() has not settled yet
+	private primingVideos: WeakSet<HTMLVideoElement> = new WeakSet();
+	private textureCache!: TextureCache;
+	private status!: LoadingStatus;
+	private dialog!: ModalDialog;
+	private pointerField: PointerField | null = null;
+	private quality!: AdaptiveQuality;
+	// Explicit `segments` take precedence over the quality tier
+	private fixedSegments: boolean = false;
+	// While the WebGL context is lost the current item is shown as a plain image
+	private contextLost: boolean = false;
+	private contextCanvas: HTMLCanvasElement | null = null;
+	private fallbackImage: HTMLImageElement | null = null;
+	// The next openItem() rebuilds the scene after a context restore
+	private restoring: boolean = false;
 
 	private THREE: ThreeModule | null = null;
 	private threeLoading: Promise<ThreeModule> | null = null;
-	private touchStartX: number = 0;
-	private touchStartY: number = 0;
-	private readonly swipeThreshold: number = 50;
 
 	// Bound event handlers for cleanup
+	private shortcuts!: KeyboardShortcuts;
 	private boundKeydown!: (e: KeyboardEvent) => void;
 	private boundResize!: () => void;
-	private boundTouchStart!: (e: TouchEvent) => void;
-	private boundTouchEnd!: (e: TouchEvent) => void;
+	private boundContextLost!: (e: Event) => void;
+	private boundContextRestored!: () => void;
 	private imageHandlers: Map<HTMLElement, { click: () => void; mouseenter: () => void; touchstart: () => void }> = new Map();
 
 	constructor(
@@ -85,40 +225,120 @@ export class ParticleViewer {
 		const container = document.querySelector(containerSelector);
 		if (!container) throw new Error('Container element not found');
 		this.container = container as HTMLElement;
+		this.events = new ViewerEventEmitter(this.container);
 
 		this.canvas = this.container.querySelector<HTMLCanvasElement>('canvas.webgl-canvas')!;
 		this.closeButton = this.container.querySelector<HTMLButtonElement>('.close-button')!;
 		this.prevButton = this.container.querySelector<HTMLButtonElement>('.nav-button.prev')!;
 		this.nextButton = this.container.querySelector<HTMLButtonElement>('.nav-button.next')!;
+		this.slideshowButton = this.container.querySelector<HTMLButtonElement>('.slideshow-button');
 		this.captionElement = this.container.querySelector<HTMLElement>('.caption');
 		this.paginationElement = this.container.querySelector<HTMLElement>('.pagination');
+		this.status = new LoadingStatus(this.container);
+		this.dialog = new ModalDialog(this.container);
 
+		this.imageSelector = imageSelector;
 		this.images = document.querySelectorAll(imageSelector);
 
-		const hasMultipleImages = this.images.length > 1;
-		if (!hasMultipleImages) {
-			this.prevButton.hidden = true;
-			this.nextButton.hidden = true;
-			if (this.paginationElement) this.paginationElement.hidden = true;
-		}
-
-		const isMobile = window.innerWidth < 768;
 		const isLowPerf = isLowPerformance();
 
+		// The tier starts from device heuristics (40 segments on slow devices, 80 on mobile)
+		this.quality = new AdaptiveQuality(userConfig.quality ?? defaultConfig.quality);
+		this.fixedSegments = userConfig.segments !== undefined;
 		this.config = {
 			...defaultConfig,
 			...userConfig,
-			// Drastically reduce segments on slow devices (40) or mobile (80)
-			segments: userConfig.segments ?? (isLowPerf ? 40 : (isMobile ? 80 : defaultConfig.segments)),
+			segments: userConfig.segments ?? this.quality.profile.segments,
 		};
 
+		this.labels = resolveLabels(this.config.locale, this.config.labels);
+		applyLabels(this.container, this.labels);
+		this.videoControls = new VideoControls(this.container, this.labels);
+
 		if (prefersReducedMotion()) {
 			this.config.openDuration = 0;
 			this.config.closeDuration = 0;
 		}
 
+		// Settled particles cost a full particle render every frame
+		if (this.config.interactive && !prefersReducedMotion() && !isLowPerf) {
+			this.pointerField = new PointerField(this.container, {
+				radius: this.config.interactionRadius,
+				strength: this.config.interactionStrength,
+				mode: this.config.interactionMode,
+			}, () => this.state === 'open' && !this.zoom?.isZoomed() && !this.swipe?.isDragging());
+		}
+
+		this.textureCache = new TextureCache({
+			// Configured in megabytes
+			budget: this.config.textureCacheSize * 1024 * 1024,
+			load: (src) => this.fetchTexture(src),
+			isInUse: (texture) => this.isTextureInUse(texture),
+		});
+
 		this.bindEvents();
-		if (hasMultipleImages) this.initPagination();
+
+		if (this.config.zoom) {
+			this.zoom = new ZoomController({
+				element: this.container,
+				getContentSize: () => this.getDisplaySize(),
+				canZoom: () => this.isSettled(),
+				apply: (state) => this.applyZoom(state),
+			}, {
+				maxZoom: this.config.maxZoom,
+				doubleTapZoom: Math.min(2.5, this.config.maxZoom),
+			});
+		}
+
+		this.swipe = new SwipeGestures(this, {
+			element: this.container,
+			canSwipe: () => this.container.classList.contains('visible') && !this.closing && !this.zoom?.suppressesSwipe(),
+			canNavigate: () => this.canNavigate(),
+			// The image follows the drag like a pan of the unzoomed view
+			apply: ({ x, y }) => this.applyZoom({ scale: 1, x, y }),
+			navigate: (direction) => (direction > 0 ? this.handleNext() : this.handlePrev()),
+			dismiss: () => this.dismiss(),
+		});
+
+		if (this.config.slideshow || this.config.autoplay) {
+			this.slideshow = new Slideshow(this, this.container, {
+				interval: this.config.slideshowInterval,
+				loop: this.config.slideshowLoop,
+				autostart: this.config.autoplay,
+				getImageRect: () => {
+					if (!this.currentPoints) return null;
+					const { width, height } = this.getDisplaySize();
+					return new DOMRect((window.innerWidth - width) / 2, (window.innerHeight - height) / 2, width, height);
+				},
+				labels: this.labels,
+			});
+		}
+
+		this.updateControls();
+
+		if (this.config.observe) {
+			this.itemObserver = new ItemObserver(this.container, imageSelector, () => this.images, () => this.refresh());
+		}
+
+		if (this.config.history) {
+			const key = this.config.historyKey || this.container.id || 'gallery';
+			this.history = new ViewerHistory(this, key, this.config.history);
+			this.history.restore();
+		}
+	}
+
+	public on<K extends ViewerEventName>(type: K, listener: ViewerEventListener<K>): () => void {
+		return this.events.on(type, listener);
+	}
+
+	public off<K extends ViewerEventName>(type: K, listener: ViewerEventListener<K>): void {
+		this.events.off(type, listener);
+	}
+
+	private getEventDetail(index: number = this.currentIndex): ViewerEventDetail {
+		const media = this.images[index] ? this.getMediaFromItem(this.images[index]) : null;
+		const src = media ? getMediaSource(media, this.config.srcAttribute) : null;
+		return { index, src };
 	}
 
 	private async loadThree(): Promise<ThreeModule> {
@@ -134,30 +354,21 @@ export class ParticleViewer {
 	}
 
 	private initThreeJS(): boolean {
-		if (!this.THREE || this.scene) return true;
-
-		const isMobile = window.innerWidth < 768;
+		if (!this.THREE) return true;
 
 		try {
-			this.scene = new this.THREE.Scene();
-			this.clock = new this.THREE.Clock();
-			this.camera = new this.THREE.OrthographicCamera(-1, 1, 1, -1, 0.1, 1000);
-			this.camera.position.z = 100;
-
-			this.renderer = new this.THREE.WebGLRenderer({
-				canvas: this.canvas,
-				alpha: true,
-				antialias: !isMobile,
-				// Removed powerPreference for better Brave compatibility
-				failIfMajorPerformanceCaveat: false
-			});
-
-			// Verify the renderer context is valid
-			const gl = this.renderer.getContext();
-			if (!gl || gl.isContextLost()) {
-				throw new Error('WebGL context lost or invalid');
+			if (!this.scene) {
+				this.scene = new this.THREE.Scene();
+				this.clock = new this.THREE.Clock();
+				this.camera = new this.THREE.OrthographicCamera(-1, 1, 1, -1, 0.1, 1000);
+				this.camera.position.z = 100;
 			}
 
+			// The page's galleries share one WebGL context
+			this.renderer = rendererManager.acquire(this.THREE, this, this.canvas, () => this.revokeRenderer(), {
+				antialias: this.quality.profile.antialias,
+			});
+			this.watchContext(this.renderer.domElement);
 			return true;
 		} catch (error) {
 			console.warn('WebGL initialization failed:', error);
@@ -166,57 +377,205 @@ export class ParticleViewer {
 		}
 	}
 
+	private releaseRenderer(): void {
+		this.watchContext(null);
+		this.hideFallback();
+		rendererManager.release(this);
+		this.renderer = null;
+	}
+
+	private watchContext(canvas: HTMLCanvasElement | null): void {
+		if (this.contextCanvas === canvas) return;
+		this.contextCanvas?.removeEventListener('webglcontextlost', this.boundContextLost);
+		this.contextCanvas?.removeEventListener('webglcontextrestored', this.boundContextRestored);
+		this.contextCanvas = canvas;
+		canvas?.addEventListener('webglcontextlost', this.boundContextLost);
+		canvas?.addEventListener('webglcontextrestored', this.boundContextRestored);
+	}
+
+	/**
+	 * The GPU dropped the context (backgrounded mobile tab, driver reset):
+	 * stops the animations and shows the current item as a plain image
+	 */
+	private handleContextLost(e: Event): void {
+		// Lets the browser restore the context later
+		e.preventDefault();
+		this.contextLost = true;
+		this.videoControls.detach();
+		this.slideshow?.setSuspended(true);
+
+		// close() finishes on its own once its animation is cut
+		if (this.isClosed()) {
+			this.cancelAnimation();
+			return;
+		}
+
+		this.pendingIndices = [];
+		this.transitionTarget = null;
+		this.zoom?.reset();
+		this.status.reset();
+		// Interrupted animations return early and leave the state to us
+		this.cleanupScene();
+		this.state = 'open';
+		this.showFallback(this.currentIndex);
+	}
+
+	/**
+	 * Rebuilds the scene for the current item; cached textures are uploaded
+	 * again on first use
+	 */
+	private handleContextRestored(): void {
+		this.contextLost = false;
+		this.slideshow?.setSuspended(false);
+		if (this.isClosed() || !this.container.classList.contains('visible')) return;
+
+		this.restoring = true;
+		this.navigate(this.currentIndex).catch(noop);
+	}
+
+	// Plain image of the item at 'index', used while WebGL is unavailable
+	private showFallback(index: number): void {
+		const item = this.images[index];
+		const media = item ? this.getMediaFromItem(item) : null;
+		if (!media) return;
+
+		if (!this.fallbackImage) {
+			this.fallbackImage = document.createElement('img');
+			this.fallbackImage.classList.add('context-fallback');
+			Object.assign(this.fallbackImage.style, {
+				position: 'fixed',
+				inset: '0',
+				width: '100%',
+				height: '100%',
+				padding: '5vh 5vw',
+				boxSizing: 'border-box',
+				objectFit: 'contain',
+				pointerEvents: 'none',
+			});
+			this.container.insertBefore(this.fallbackImage, this.closeButton);
+		}
+
+		// Videos show their poster: they cannot play without the texture
+		const src = getVideoSource(media) ? getStillSource(media) : getMediaSource(media, this.config.srcAttribute);
+		if (src) {
+			this.fallbackImage.src = src;
+			this.updateBackground(src, 0);
+		}
+		this.fallbackImage.alt = getMediaLabel(media);
+
+		const previousIndex = this.currentIndex;
+		this.currentIndex = index;
+		this.sourceMedia = media;
+		this.updatePagination();
+		this.updateCaption();
+		if (index !== previousIndex) this.events.emit('change', { ...this.getEventDetail(), previousIndex });
+	}
+
+	private hideFallback(): void {
+		this.contextLost = false;
+		this.slideshow?.setSuspended(false);
+		this.fallbackImage?.remove();
+		this.fallbackImage = null;
+	}
+
+	// Another gallery took the shared renderer while this one was open
+	private revokeRenderer(): void {
+		this.renderer = null;
+		this.watchContext(null);
+		this.hideFallback();
+		if (this.state === 'closing') {
+			// closeViewer() finishes the cleanup
+			this.cancelAnimation();
+			return;
+		}
+
+		const wasVisible = this.container.classList.contains('visible');
+		this.pendingIndices = [];
+		this.transitionTarget = null;
+		this.videoControls.detach();
+		exitFullscreen(this.container);
+		this.zoom?.reset();
+		this.status.reset();
+		this.cleanupScene();
+		this.state = 'closed';
+		this.container.querySelectorAll('.particle-bg').forEach(img => img.remove());
+		this.container.classList.remove('visible');
+		if (this.captionElement) this.captionElement.classList.remove('visible');
+		// The gallery taking over moves focus itself
+		this.dialog.release();
+		if (wasVisible) this.events.emit('closed', this.getEventDetail());
+	}
+
+	private bindItem(item: HTMLElement): void {
+		const handlers = {
+			click: () => {
+				this.open(item).catch(noop);
+			},
+			mouseenter: () => this.loadThree(),
+			touchstart: () => this.loadThree(),
+		};
+		this.imageHandlers.set(item, handlers);
+		item.addEventListener('click', handlers.click);
+		item.addEventListener('mouseenter', handlers.mouseenter);
+		item.addEventListener('touchstart', handlers.touchstart, { passive: true });
+	}
+
+	private unbindItem(item: HTMLElement): void {
+		const handlers = this.imageHandlers.get(item);
+		if (!handlers) return;
+		item.removeEventListener('click', handlers.click);
+		item.removeEventListener('mouseenter', handlers.mouseenter);
+		item.removeEventListener('touchstart', handlers.touchstart);
+		this.imageHandlers.delete(item);
+	}
+
 	private bindEvents(): void {
-		this.images.forEach((item) => {
-			const handlers = {
-				click: () => this.open(item),
-				mouseenter: () => this.loadThree(),
-				touchstart: () => this.loadThree(),
-			};
-			this.imageHandlers.set(item, handlers);
-			item.addEventListener('click', handlers.click);
-			item.addEventListener('mouseenter', handlers.mouseenter);
-			item.addEventListener('touchstart', handlers.touchstart, { passive: true });
-		});
+		this.images.forEach((item) => this.bindItem(item));
 
-		this.closeButton.addEventListener('click', () => this.close());
+		this.closeButton.addEventListener('click', () => this.handleClose());
 
 		this.prevButton.addEventListener('click', (e) => {
 			e.stopPropagation();
-			this.prev();
+			this.handlePrev();
 		});
 
 		this.nextButton.addEventListener('click', (e) => {
 			e.stopPropagation();
-			this.next();
+			this.handleNext();
 		});
 
+		this.shortcuts = new KeyboardShortcuts(this.container, {
+			close: () => this.handleClose(),
+			prev: () => this.handlePrev(),
+			next: () => this.handleNext(),
+			first: () => this.jumpTo(0),
+			last: () => this.jumpTo(this.images.length - 1),
+			jump: (index) => this.jumpTo(index),
+			slideshow: (event) => {
+				if (!this.slideshow || this.images.length <= 1) return false;
+				this.slideshow.toggle(event);
+			},
+			zoomIn: () => {
+				if (!this.zoom) return false;
+				this.zoom.zoomBy(ZOOM_STEP);
+			},
+			zoomOut: () => {
+				if (!this.zoom) return false;
+				this.zoom.zoomBy(1 / ZOOM_STEP);
+			},
+			zoomReset: () => {
+				if (!this.zoom) return false;
+				this.zoom.zoomTo(1, undefined, undefined, true);
+			},
+			fullscreen: () => toggleFullscreen(this.container),
+		}, this.config.keymap);
+
 		this.boundKeydown = (event: KeyboardEvent) => {
 			if (this.container.classList.contains('visible')) {
-				if (event.key === 'Escape') this.close();
-				if (event.key === 'ArrowLeft') {
-					event.preventDefault();
-					this.prev();
-				}
-				if (event.key === 'ArrowRight') {
-					event.preventDefault();
-					this.next();
-				}
-
 				if (event.key === 'Tab') {
-					const focusable = this.images.length > 1
-						? [this.closeButton, this.prevButton, this.nextButton]
-						: [this.closeButton];
-					const first = focusable[0];
-					const last = focusable[focusable.length - 1];
-
-					if (event.shiftKey && document.activeElement === first) {
-						event.preventDefault();
-						last.focus();
-					} else if (!event.shiftKey && document.activeElement === last) {
-						event.preventDefault();
-						first.focus();
-					}
+					this.dialog.trapFocus(event);
+				} else {
+					this.shortcuts.handle(event);
 				}
 			}
 		};
@@ -224,376 +583,794 @@ export class ParticleViewer {
 
 		this.boundResize = () => {
 			if (this.container.classList.contains('visible')) {
+				this.zoom?.reset();
 				this.updateCamera();
 				this.updateStartPositions();
 			}
 		};
 		window.addEventListener('resize', this.boundResize);
 
-		this.boundTouchStart = (e: TouchEvent) => {
-			this.touchStartX = e.touches[0].clientX;
-			this.touchStartY = e.touches[0].clientY;
-		};
-		this.container.addEventListener('touchstart', this.boundTouchStart, { passive: true });
+		// Registered on the shared canvas while this gallery holds it
+		this.boundContextLost = (e: Event) => this.handleContextLost(e);
+		this.boundContextRestored = () => this.handleContextRestored();
+	}
 
-		this.boundTouchEnd = (e: TouchEvent) => {
-			if (!this.container.classList.contains('visible')) return;
-			if (this.images.length <= 1 || this.isAnimating) return;
+	// User input interrupts or retargets running animations, like the API
+	private handleClose(): void {
+		this.close();
+	}
 
-			const touchEndX = e.changedTouches[0].clientX;
-			const touchEndY = e.changedTouches[0].clientY;
-			const deltaX = touchEndX - this.touchStartX;
-			const deltaY = touchEndY - this.touchStartY;
+	private handlePrev(): void {
+		this.prev().catch(noop);
+	}
 
-			if (Math.abs(deltaX) > Math.abs(deltaY) && Math.abs(deltaX) > this.swipeThreshold) {
-				if (deltaX > 0) {
-					this.prev();
-				} else {
-					this.next();
-				}
-			}
-		};
-		this.container.addEventListener('touchend', this.boundTouchEnd, { passive: true });
+	private handleNext(): void {
+		this.next().catch(noop);
+	}
+
+	// Number keys, Home and End; false when there is no such image
+	private jumpTo(index: number): boolean {
+		if (!this.canNavigate() || index >= this.images.length) return false;
+		if (this.getTargetIndex() !== index) this.goTo(index).catch(noop);
+		return true;
 	}
 
 	private initPagination(): void {
 		if (!this.paginationElement) return;
-		this.paginationElement.innerHTML = '';
-
-		const totalImages = this.images.length;
-		const needsNavigation = totalImages > this.maxVisibleDots;
-
-		if (needsNavigation) {
-			this.prevPageButton = document.createElement('button');
-			this.prevPageButton.className = 'pagination-nav';
-			this.prevPageButton.innerHTML = '&#10094;';
-			this.prevPageButton.ariaLabel = 'Imagen anterior';
-			this.prevPageButton.addEventListener('click', (e) => {
-				e.stopPropagation();
-				this.prev();
-			});
-			this.paginationElement.appendChild(this.prevPageButton);
-		}
-
-		this.dotsContainer = document.createElement('div');
-		this.dotsContainer.className = 'pagination-dots';
-		this.paginationElement.appendChild(this.dotsContainer);
-
-		this.images.forEach((_, index) => {
-			const dot = document.createElement('button');
-			dot.className = 'pagination-dot';
-			dot.innerText = (index + 1).toString();
-			dot.ariaLabel = `Ir a imagen ${index + 1}`;
-			dot.addEventListener('click', (e) => {
-				e.stopPropagation();
-				if (this.currentIndex !== index && !this.isAnimating) {
-					this.transitionTo(index);
+		this.pagination?.destroy();
+
+		this.pagination = new Pagination(this.paginationElement, {
+			style: this.config.pagination,
+			thumbnails: Array.from(this.images, (item) => {
+				const media = this.getMediaFromItem(item);
+				if (!media) return '';
+				return media instanceof HTMLImageElement ? media.currentSrc || media.src : getStillSource(media) || '';
+			}),
+			onSelect: (index) => {
+				if (this.getTargetIndex() !== index) {
+					this.goTo(index).catch(noop);
 				}
-			});
-			this.dotsContainer!.appendChild(dot);
+			},
+			onPrev: () => this.handlePrev(),
+			onNext: () => this.handleNext(),
+			labels: this.labels,
 		});
+		this.pagination.update(this.currentIndex);
+	}
 
-		if (needsNavigation) {
-			this.nextPageButton = document.createElement('button');
-			this.nextPageButton.className = 'pagination-nav';
-			this.nextPageButton.innerHTML = '&#10095;';
-			this.nextPageButton.ariaLabel = 'Imagen siguiente';
-			this.nextPageButton.addEventListener('click', (e) => {
-				e.stopPropagation();
-				this.next();
-			});
-			this.paginationElement.appendChild(this.nextPageButton);
-		}
-
-		this.updatePaginationVisibility();
+	private updatePagination(): void {
+		this.pagination?.update(this.currentIndex);
 	}
 
-	private updatePaginationVisibility(): void {
-		if (!this.dotsContainer) return;
+	// Navigation controls only make sense with several items
+	private updateControls(): void {
+		const hasMultipleImages = this.images.length > 1;
+		this.prevButton.hidden = !hasMultipleImages;
+		this.nextButton.hidden = !hasMultipleImages;
+		if (this.slideshowButton && this.slideshow) this.slideshowButton.hidden = !hasMultipleImages;
+		if (this.paginationElement) this.paginationElement.hidden = !hasMultipleImages;
 
-		const dots = this.dotsContainer.children;
-		const total = this.images.length;
+		if (hasMultipleImages) {
+			this.initPagination();
+		} else {
+			this.pagination?.destroy();
+			this.pagination = null;
+		}
+	}
 
-		let startIndex = this.paginationStartIndex;
-		const endIndex = Math.min(startIndex + this.maxVisibleDots, total);
+	/**
+	 * Picks up gallery items added or removed since the viewer was created:
+	 * binds the new ones, releases detached ones and rebuilds the pagination.
+	 * The current image keeps its index when it moved; when it was removed the
+	 * item that took its place becomes current
+	 */
+	public refresh(): void {
+		const previousItems = Array.from(this.images);
+		this.images = document.querySelectorAll(this.imageSelector);
+		const items = Array.from(this.images);
+		if (items.length === previousItems.length && items.every((item, i) => item === previousItems[i])) return;
+
+		this.imageHandlers.forEach((_, item) => {
+			if (!items.includes(item)) this.unbindItem(item);
+		});
+		items.forEach((item) => {
+			if (!this.imageHandlers.has(item)) this.bindItem(item);
+		});
 
-		if (endIndex - startIndex < this.maxVisibleDots && total >= this.maxVisibleDots) {
-			startIndex = total - this.maxVisibleDots;
+		const remap = (index: number) => items.indexOf(previousItems[index]);
+		const current = remap(this.currentIndex);
+		this.currentIndex = current >= 0 ? current : Math.max(Math.min(this.currentIndex, items.length - 1), 0);
+		// Requests for removed items are dropped
+		this.pendingIndices = this.pendingIndices.map(remap).filter((index) => index >= 0);
+		if (this.transitionTarget !== null) {
+			const target = remap(this.transitionTarget);
+			this.transitionTarget = target >= 0 ? target : null;
 		}
 
-		for (let i = 0; i < dots.length; i++) {
-			const dot = dots[i] as HTMLElement;
-			const isVisible = i >= startIndex && i < endIndex;
-			dot.style.display = isVisible ? 'flex' : 'none';
+		this.updateControls();
+
+		if (!this.container.classList.contains('visible')) return;
+		if (items.length === 0) {
+			this.close().catch(noop);
+		} else if (current < 0) {
+			// The image on screen is gone: move to the item that took its place,
+			// unless a navigation is already heading elsewhere
+			if (this.pendingIndices.length === 0 && this.transitionTarget === null) this.navigate(this.currentIndex).catch(noop);
+		} else if (this.state === 'open') {
+			// Transitions update the caption when they end
+			this.updateCaption();
 		}
 	}
 
-	private updatePagination(): void {
-		if (!this.dotsContainer) return;
+	/**
+	 * Opens the viewer on a gallery item. Resolves once the image has settled
+	 */
+	public open(item: HTMLElement): Promise<void> {
+		const index = Array.from(this.images).indexOf(item);
+		if (index < 0) return Promise.reject(new Error('Item is not part of the gallery'));
+		return this.navigate(index);
+	}
 
-		const dots = this.dotsContainer.children;
-		for (let i = 0; i < dots.length; i++) {
-			dots[i].classList.toggle('active', i === this.currentIndex);
-		}
+	/**
+	 * Opens the viewer on the image at 'index', or navigates to it if already open
+	 */
+	public openAt(index: number): Promise<void> {
+		return this.goTo(index);
+	}
 
-		const total = this.images.length;
-		if (total > this.maxVisibleDots) {
-			const minStart = Math.max(0, this.currentIndex - this.maxVisibleDots + 1);
-			const maxStart = Math.min(this.currentIndex, total - this.maxVisibleDots);
-
-			if (this.paginationStartIndex < minStart) {
-				this.paginationStartIndex = minStart;
-			} else if (this.paginationStartIndex > maxStart) {
-				this.paginationStartIndex = maxStart;
-			}
+	/**
+	 * Navigates to the image at 'index', opening the viewer if it is closed.
+	 * Resolves once the new image has settled
+	 */
+	public goTo(index: number): Promise<void> {
+		if (!Number.isInteger(index) || index < 0 || index >= this.images.length) {
+			return Promise.reject(new RangeError(`Image index ${index} out of range`));
 		}
+		return this.navigate(index);
+	}
+
+	/**
+	 * Starts the slideshow, if enabled in the config
+	 */
+	public play(): void {
+		this.slideshow?.play();
+	}
+
+	/**
+	 * Pauses the slideshow
+	 */
+	public pause(): void {
+		this.slideshow?.pause();
+	}
 
-		this.updatePaginationVisibility();
+	public getState(): ViewerState {
+		const { index, src } = this.getEventDetail();
+		return {
+			index,
+			total: this.images.length,
+			isOpen: this.currentPoints !== null || this.container.classList.contains('visible'),
+			isAnimating: this.isBusy(),
+			src,
+		};
 	}
 
-	public async open(item: HTMLElement): Promise<void> {
-		if (this.isAnimating) return;
+	private async openItem(item: HTMLElement): Promise<void> {
+		const restoring = this.restoring;
+		this.restoring = false;
 		if (this.currentPoints) this.cleanupScene();
 
-		const img = this.getImageFromItem(item);
-		if (!img) return;
+		const media = this.getMediaFromItem(item);
+		if (!media) throw new Error('Gallery item has no image or video');
+		this.state = 'loading';
 
 		const THREE = await this.loadThree();
+		// Closed while Three.js was loading
+		if (this.state !== 'loading') return;
 		const initSuccess = this.initThreeJS();
 
 		if (!initSuccess || !this.scene || !this.renderer || !this.camera || !this.clock) {
 			// WebGL failed - open image in new tab as fallback
-			const imgSrc = img.getAttribute(this.config.srcAttribute) || img.getAttribute('src');
+			const imgSrc = getMediaSource(media, this.config.srcAttribute);
+			const error = new Error('WebGL initialization failed');
+			this.events.emit('error', { ...this.getEventDetail(Array.from(this.images).indexOf(item)), error });
+			this.state = 'closed';
 			if (imgSrc) window.open(imgSrc, '_blank');
-			return;
+			throw error;
 		}
 
 		this.currentIndex = Array.from(this.images).indexOf(item);
 		this.updatePagination();
+		// A rebuild after a context loss is not a new opening
+		if (!restoring) this.events.emit('open', this.getEventDetail());
+
+		// The shared context was lost while no gallery held it
+		if (this.renderer.getContext().isContextLost()) {
+			this.showOverlay();
+			this.state = 'open';
+			this.contextLost = true;
+			this.showFallback(this.currentIndex);
+			if (!restoring) this.events.emit('opened', this.getEventDetail());
+			return;
+		}
 
-		this.sourceImage = img;
-
-		if (this.captionElement) {
-			this.captionElement.innerText = img.getAttribute('alt') || '';
-			this.captionElement.classList.add('visible');
-		}
-
-		const imgSrc = img.getAttribute(this.config.srcAttribute) || img.getAttribute('src');
-		new THREE.TextureLoader().load(imgSrc!, (texture: Texture) => {
-			texture.colorSpace = THREE.SRGBColorSpace;
-
-			const textureImage = texture.image as HTMLImageElement;
-			const reducedMotion = prefersReducedMotion();
-			const bgDuration = reducedMotion ? 0 : this.config.openDuration;
-			const bgDelay = reducedMotion ? 0 : 600;
-			this.updateBackground(imgSrc!, bgDuration, bgDelay);
-
-			const imgWidth = textureImage.naturalWidth;
-			const imgHeight = textureImage.naturalHeight;
-			this.imageWidth = imgWidth;
-			this.imageHeight = imgHeight;
-			const geometry = new THREE.PlaneGeometry(
-				imgWidth,
-				imgHeight,
-				this.config.segments,
-				this.config.segments
-			);
-
-			const imgRect = img.getBoundingClientRect();
-			const vpWidth = window.innerWidth;
-			const vpHeight = window.innerHeight;
-
-			const { viewWidth, viewHeight } = this.calculateViewDimensions();
-
-			const count = geometry.attributes.position.count;
-			const startPositions = new Float32Array(count * 3);
-			const curveOffsets = new Float32Array(count * 3);
-			const delays = new Float32Array(count);
-			const rotationSpeeds = new Float32Array(count);
-			const uvs = geometry.attributes.uv.array;
-
-			const maxDistance = Math.sqrt(0.5 * 0.5 + 0.5 * 0.5);
-
-			for (let i = 0; i < count; i++) {
-				const u = uvs[i * 2];
-				const v = uvs[i * 2 + 1];
-
-				const sourcePx = imgRect.left + u * imgRect.width;
-				const sourcePy = imgRect.top + (1.0 - v) * imgRect.height;
-
-				const startX = (sourcePx / vpWidth) * viewWidth - viewWidth / 2;
-				const startY = -(sourcePy / vpHeight) * viewHeight + viewHeight / 2;
-
-				startPositions[i * 3] = startX;
-				startPositions[i * 3 + 1] = startY;
-				startPositions[i * 3 + 2] = 0;
-
-				curveOffsets[i * 3] = (Math.random() - 0.5) * 4.0;
-				curveOffsets[i * 3 + 1] = (Math.random() - 0.5) * 4.0;
-				curveOffsets[i * 3 + 2] = 0.0;
-
-				const centerU = u - 0.5;
-				const centerV = v - 0.5;
-				const distanceFromCenter = Math.sqrt(centerU * centerU + centerV * centerV);
-				const normalizedDistance = distanceFromCenter / maxDistance;
-				delays[i] = (1.0 - normalizedDistance) * 0.25 + Math.random() * 0.05;
-				rotationSpeeds[i] = (Math.random() - 0.5) * 20.0;
-			}
-			geometry.setAttribute('aStartPosition', new THREE.BufferAttribute(startPositions, 3));
-			geometry.setAttribute('aCurveOffset', new THREE.BufferAttribute(curveOffsets, 3));
-			geometry.setAttribute('aDelay', new THREE.BufferAttribute(delays, 1));
-			geometry.setAttribute('aRotationSpeed', new THREE.BufferAttribute(rotationSpeeds, 1));
-
-			const material = new THREE.ShaderMaterial({
-				vertexShader: vertexShader,
-				fragmentShader: fragmentShader,
-				uniforms: {
-					uTime: { value: 0 },
-					uTexture: { value: texture },
-					uTextureNext: { value: texture },
-					uTextureMix: { value: 0.0 },
-					uProgress: { value: 0.0 },
-					uSize: { value: 2.0 },
-					uOpacity: { value: 1.0 },
-					uMode: { value: 0.0 },
-					uDispersion: { value: 0.0 },
-				},
-				transparent: true,
-				depthWrite: false,
-				blending: THREE.NormalBlending,
-			});
+		this.sourceMedia = media;
 
-			this.currentPoints = new THREE.Points(geometry, material);
-			this.scene!.add(this.currentPoints);
+		this.updateCaption();
 
-			const meshMaterial = new THREE.MeshBasicMaterial({
-				map: texture,
-				transparent: true,
-				opacity: 0.0,
-			});
-			this.currentMesh = new THREE.Mesh(geometry, meshMaterial);
-			this.currentMesh.visible = false;
-			this.scene!.add(this.currentMesh);
+		// Show the overlay right away so slow downloads get a loading indicator
+		this.showOverlay();
+		this.showPlaceholder(media);
+		this.status.hideError();
+		this.status.showLoading();
+
+		let texture: Texture;
+		try {
+			texture = await this.loadMediaTexture(media);
+		} catch (err) {
+			// Closed while loading
+			if (this.state !== 'loading') return;
+			console.error('Error loading texture:', err);
+			// The overlay stays up with the error panel until closed or retried
+			this.state = 'closed';
+			this.events.emit('error', { ...this.getEventDetail(), error: err });
+			this.status.showError(() => this.open(item).catch(noop));
+			throw err;
+		} finally {
+			this.status.hideLoading();
+		}
+		if (this.state !== 'loading') return;
+
+		const reducedMotion = prefersReducedMotion();
+		const bgDuration = reducedMotion ? 0 : this.config.openDuration;
+		const bgDelay = reducedMotion ? 0 : 600;
+		const background = this.getBackgroundSource(texture, media);
+		if (background) this.updateBackground(background, bgDuration, bgDelay);
+
+		const { width: imgWidth, height: imgHeight } = getIntrinsicSize(texture.image as GalleryMedia);
+		this.imageWidth = imgWidth;
+		this.imageHeight = imgHeight;
+		// A new tier takes effect when the particle grid is rebuilt
+		if (!this.fixedSegments) this.config.segments = this.quality.profile.segments;
+		const geometry = new THREE.PlaneGeometry(
+			imgWidth,
+			imgHeight,
+			this.config.segments,
+			this.config.segments
+		);
+
+		const imgRect = media.getBoundingClientRect();
+		const vpWidth = window.innerWidth;
+		const vpHeight = window.innerHeight;
 
-			this.container.classList.add('visible');
-			document.body.style.overflow = 'hidden';
-			this.closeButton.focus();
+		const { viewWidth, viewHeight } = this.calculateViewDimensions();
+
+		const count = geometry.attributes.position.count;
+		const startPositions = new Float32Array(count * 3);
+		const curveOffsets = new Float32Array(count * 3);
+		const delays = new Float32Array(count);
+		const rotationSpeeds = new Float32Array(count);
+		const uvs = geometry.attributes.uv.array;
+
+		const maxDistance = Math.sqrt(0.5 * 0.5 + 0.5 * 0.5);
+
+		for (let i = 0; i < count; i++) {
+			const u = uvs[i * 2];
+			const v = uvs[i * 2 + 1];
+
+			const sourcePx = imgRect.left + u * imgRect.width;
+			const sourcePy = imgRect.top + (1.0 - v) * imgRect.height;
 
-			this.updateCamera();
-			this.tweenProgress(1.0, this.config.openDuration);
+			const startX = (sourcePx / vpWidth) * viewWidth - viewWidth / 2;
+			const startY = -(sourcePy / vpHeight) * viewHeight + viewHeight / 2;
 
-			if (!this.renderId) this.animate();
+			startPositions[i * 3] = startX;
+			startPositions[i * 3 + 1] = startY;
+			startPositions[i * 3 + 2] = 0;
+
+			curveOffsets[i * 3] = (Math.random() - 0.5) * 4.0;
+			curveOffsets[i * 3 + 1] = (Math.random() - 0.5) * 4.0;
+			curveOffsets[i * 3 + 2] = 0.0;
+
+			const centerU = u - 0.5;
+			const centerV = v - 0.5;
+			const distanceFromCenter = Math.sqrt(centerU * centerU + centerV * centerV);
+			const normalizedDistance = distanceFromCenter / maxDistance;
+			delays[i] = (1.0 - normalizedDistance) * 0.25 + Math.random() * 0.05;
+			rotationSpeeds[i] = (Math.random() - 0.5) * 20.0;
+		}
+		geometry.setAttribute('aStartPosition', new THREE.BufferAttribute(startPositions, 3));
+		geometry.setAttribute('aCurveOffset', new THREE.BufferAttribute(curveOffsets, 3));
+		geometry.setAttribute('aDelay', new THREE.BufferAttribute(delays, 1));
+		geometry.setAttribute('aRotationSpeed', new THREE.BufferAttribute(rotationSpeeds, 1));
+
+		const effect = resolveEffect(this.config.effect);
+		const effectAttributes = effect.attributes?.({ count, uvs }) ?? {};
+		Object.entries(effectAttributes).forEach(([name, attribute]) => {
+			geometry.setAttribute(name, new THREE.BufferAttribute(attribute.array, attribute.itemSize));
 		});
+
+		const { vertexShader, fragmentShader } = buildEffectShaders(effect);
+		const { rgbSplit, glitch } = this.quality.profile;
+		const defines: Record<string, boolean> = {};
+		if (rgbSplit) defines.USE_RGB_SPLIT = true;
+		if (glitch) defines.USE_GLITCH = true;
+		const material = new THREE.ShaderMaterial({
+			vertexShader: vertexShader,
+			fragmentShader: fragmentShader,
+			defines,
+			uniforms: {
+				...effect.uniforms?.(),
+				uTime: { value: 0 },
+				uTexture: { value: texture },
+				uTextureNext: { value: texture },
+				uTextureMix: { value: 0.0 },
+				uProgress: { value: 0.0 },
+				uSize: { value: 2.0 },
+				uOpacity: { value: 1.0 },
+				uMode: { value: 0.0 },
+				uDispersion: { value: 0.0 },
+				...createPointerUniforms(),
+			},
+			transparent: true,
+			depthWrite: false,
+			blending: THREE.NormalBlending,
+		});
+
+		this.currentPoints = new THREE.Points(geometry, material);
+		this.scene!.add(this.currentPoints);
+
+		const meshMaterial = new THREE.MeshBasicMaterial({
+			map: texture,
+			transparent: true,
+			opacity: 0.0,
+		});
+		this.currentMesh = new THREE.Mesh(geometry, meshMaterial);
+		this.currentMesh.visible = false;
+		this.scene!.add(this.currentMesh);
+
+		this.updateCamera();
+		this.hideFallback();
+		this.state = 'opening';
+		this.events.emit('animationstart', { ...this.getEventDetail(), animation: 'open' });
+		if (!this.renderId) this.animate();
+
+		this.quality.start();
+		const completed = await this.tweenProgress(1.0, this.config.openDuration);
+		this.quality.finish();
+		// Interrupted by close(), which reports the end of the animation
+		if (!completed) return;
+
+		this.state = 'open';
+		this.playVideo();
+		this.events.emit('animationend', { ...this.getEventDetail(), animation: 'open' });
+		if (!restoring) this.events.emit('opened', this.getEventDetail());
+		this.preloadNeighbors();
+	}
+
+	/**
+	 * Closes the viewer, reversing any running animation from where it is.
+	 * Resolves once the overlay is hidden
+	 */
+	public close(): Promise<void> {
+		return this.startClose(this.config.closeDuration);
+	}
+
+	// Swiped down: the overlay has already faded out, so it closes at once
+	private dismiss(): void {
+		this.startClose(0).catch(noop);
+	}
+
+	private startClose(duration: number): Promise<void> {
+		if (!this.closing) {
+			this.closing = this.closeViewer(duration).finally(() => {
+				this.closing = null;
+			});
+		}
+		return this.closing;
+	}
+
+	/**
+	 * Navigates to the image after the current (or latest requested) one.
+	 * Resolves once navigation has settled
+	 */
+	public next(): Promise<void> {
+		if (!this.canNavigate()) return Promise.resolve();
+		return this.navigate((this.getTargetIndex() + 1) % this.images.length);
+	}
+
+	/**
+	 * Navigates to the image before the current (or latest requested) one.
+	 * Resolves once navigation has settled
+	 */
+	public prev(): Promise<void> {
+		if (!this.canNavigate()) return Promise.resolve();
+		return this.navigate((this.getTargetIndex() - 1 + this.images.length) % this.images.length);
+	}
+
+	private canNavigate(): boolean {
+		if (this.images.length <= 1 || this.closing) return false;
+		return this.navigation !== null || this.container.classList.contains('visible');
+	}
+
+	// The image navigation is heading to
+	private getTargetIndex(): number {
+		return this.pendingIndices[this.pendingIndices.length - 1] ?? this.transitionTarget ?? this.currentIndex;
+	}
+
+	/**
+	 * Requests the image at 'index', opening the viewer if needed. During a
+	 * transition the request retargets it, or waits its turn in 'queue' mode
+	 */
+	private navigate(index: number): Promise<void> {
+		if (this.config.navigationMode === 'queue') {
+			this.pendingIndices.push(index);
+		} else {
+			this.pendingIndices = [index];
+			// Cut the reassembly short; the next transition disperses from here
+			if (this.state === 'reassembling') this.cancelAnimation();
+		}
+
+		if (!this.navigation) this.navigation = this.runNavigation();
+		return this.navigation;
+	}
+
+	private async runNavigation(): Promise<void> {
+		try {
+			while (this.pendingIndices.length > 0) {
+				if (this.closing) await this.closing;
+				const index = this.pendingIndices.shift();
+				if (index === undefined) break;
+				if (this.contextLost && this.container.classList.contains('visible')) this.showFallback(index);
+				else await (this.currentPoints ? this.transitionTo(index) : this.openItem(this.images[index]));
+			}
+		} catch (err) {
+			this.pendingIndices = [];
+			throw err;
+		} finally {
+			this.navigation = null;
+		}
+	}
+
+	// Read through a method so checks after an await are not narrowed away
+	private isClosed(): boolean {
+		return this.state === 'closing' || this.state === 'closed';
+	}
+
+	private isBusy(): boolean {
+		if (this.navigation || this.closing) return true;
+		return this.state !== 'open' && this.state !== 'closed';
+	}
+
+	private showOverlay(): void {
+		if (this.container.classList.contains('visible')) return;
+		this.dialog.open();
+		this.container.classList.add('visible');
+		document.body.style.overflow = 'hidden';
+		this.closeButton.focus();
 	}
 
-	public close(): void {
-		if (this.isAnimating || !this.currentPoints) return;
+	private async closeViewer(closeDuration: number): Promise<void> {
+		const previousState = this.state;
+		this.pendingIndices = [];
+		this.videoControls.detach();
+		exitFullscreen(this.container);
 
+		if (!this.currentPoints) {
+			// Still loading the first image, or showing the error panel of a failed load
+			this.state = 'closed';
+			if (this.container.classList.contains('visible')) {
+				this.events.emit('close', this.getEventDetail());
+				this.status.reset();
+				this.container.querySelectorAll('.particle-bg').forEach(img => img.remove());
+				this.container.classList.remove('visible');
+				if (this.captionElement) this.captionElement.classList.remove('visible');
+				document.body.style.overflow = '';
+				this.dialog.close(this.images[this.currentIndex]);
+				this.events.emit('closed', this.getEventDetail());
+			}
+			this.releaseRenderer();
+			return;
+		}
+
+		if (previousState === 'opening' || previousState === 'dispersing' || previousState === 'reassembling') {
+			this.events.emit('animationend', {
+				...this.getEventDetail(this.transitionTarget ?? this.currentIndex),
+				animation: previousState === 'opening' ? 'open' : 'change',
+			});
+		}
+		this.cancelAnimation();
+		this.transitionTarget = null;
+		this.state = 'closing';
+
+		this.zoom?.reset();
+		this.status.reset();
+		this.events.emit('close', this.getEventDetail());
+
+		const material = this.currentPoints.material as ShaderMaterial;
 		if (this.currentMesh) {
 			this.currentMesh.visible = false;
 			(this.currentMesh.material as MeshBasicMaterial).opacity = 0.0;
 		}
-		if (this.currentPoints) {
-			this.currentPoints.visible = true;
-			(this.currentPoints.material as ShaderMaterial).uniforms.uOpacity.value = 1.0;
-			(this.currentPoints.material as ShaderMaterial).uniforms.uMode.value = 1.0;
-		}
+		this.currentPoints.visible = true;
+		material.uniforms.uOpacity.value = 1.0;
+		// Reverse an unfinished opening along the same path
+		material.uniforms.uMode.value = previousState === 'opening' ? 0.0 : 1.0;
 
+		const duration = closeDuration * material.uniforms.uProgress.value;
 		const bgImages = this.container.querySelectorAll<HTMLElement>('.particle-bg');
 		bgImages.forEach(child => {
-			child.style.transition = `opacity ${this.config.closeDuration}ms ease`;
+			child.style.transition = `opacity ${duration}ms ease`;
 			child.style.opacity = '0';
 		});
 
-		const onAnimationComplete = () => {
-			this.container.classList.remove('visible');
-			if (this.captionElement) this.captionElement.classList.remove('visible');
-			document.body.style.overflow = '';
-			this.cleanupScene();
+		this.events.emit('animationstart', { ...this.getEventDetail(), animation: 'close' });
+		await this.tweenProgress(0.0, closeDuration);
 
-			this.container.querySelectorAll('.particle-bg').forEach(img => img.remove());
-
-			if (this.images[this.currentIndex]) {
-				this.images[this.currentIndex].focus();
-			}
-		};
+		this.state = 'closed';
+		this.container.classList.remove('visible');
+		if (this.captionElement) this.captionElement.classList.remove('visible');
+		document.body.style.overflow = '';
+		this.cleanupScene();
 
-		this.tweenProgress(0.0, this.config.closeDuration, onAnimationComplete);
-	}
+		this.container.querySelectorAll('.particle-bg').forEach(img => img.remove());
+		this.releaseRenderer();
 
-	public next(): void {
-		if (this.isAnimating || this.images.length <= 1) return;
-		const nextIndex = (this.currentIndex + 1) % this.images.length;
-		this.transitionTo(nextIndex);
-	}
+		this.dialog.close(this.images[this.currentIndex]);
 
-	public prev(): void {
-		if (this.isAnimating || this.images.length <= 1) return;
-		const prevIndex = (this.currentIndex - 1 + this.images.length) % this.images.length;
-		this.transitionTo(prevIndex);
+		this.events.emit('animationend', { ...this.getEventDetail(), animation: 'close' });
+		this.events.emit('closed', this.getEventDetail());
 	}
 
-	private transitionTo(newIndex: number): void {
-		if (this.isAnimating || !this.THREE) return;
-		this.isAnimating = true;
+	private async transitionTo(newIndex: number): Promise<void> {
+		if (!this.currentPoints || !this.currentMesh) return;
 
-		const THREE = this.THREE;
-		const newItem = this.images[newIndex];
-		const newImage = this.getImageFromItem(newItem);
-		const newImgSrc = newImage?.getAttribute(this.config.srcAttribute) || newImage?.getAttribute('src');
-		if (!newImgSrc || !this.currentPoints || !this.currentMesh) {
-			this.isAnimating = false;
+		// An item removed by refresh() may still be on screen at this index
+		if (newIndex === this.currentIndex && this.getMediaFromItem(this.images[newIndex]) === this.sourceMedia) {
+			// Back to the image whose transition was cut short
+			if (this.state !== 'open' && await this.reassemble()) this.playVideo();
 			return;
 		}
 
+		let newItem = this.images[newIndex];
+		const newMedia = this.getMediaFromItem(newItem);
+		if (!newMedia) return;
+
+		const uniforms = (this.currentPoints.material as ShaderMaterial).uniforms;
+		this.zoom?.reset();
+		this.transitionTarget = newIndex;
+		this.state = 'loading';
+		this.videoControls.detach();
 		if (this.captionElement) this.captionElement.classList.remove('visible');
+		this.status.hideError();
+		this.status.showLoading();
 
-		const loader = new THREE.TextureLoader();
-		loader.load(newImgSrc, (newTexture: Texture) => {
-			newTexture.colorSpace = THREE.SRGBColorSpace;
+		let newTexture: Texture;
+		try {
+			newTexture = await this.loadMediaTexture(newMedia);
+		} catch (err) {
+			// Closed while loading
+			if (this.state !== 'loading') return;
+			console.error('Error loading texture:', err);
+			this.transitionTarget = null;
+			this.settle();
+			this.playVideo();
+			if (this.captionElement) this.captionElement.classList.add('visible');
+			this.events.emit('error', { ...this.getEventDetail(newIndex), error: err });
+			this.status.showError(() => this.goTo(newIndex).catch(noop));
+			throw err;
+		} finally {
+			this.status.hideLoading();
+		}
 
-			if (prefersReducedMotion()) {
-				this.swapImageContent(newItem, newTexture);
-				if (this.currentMesh) {
-					this.currentMesh.visible = true;
-					(this.currentMesh.material as MeshBasicMaterial).opacity = 1.0;
-				}
-				if (this.currentPoints) this.currentPoints.visible = false;
-				this.isAnimating = false;
-				return;
+		// Closed, or superseded by a newer request that takes over from here
+		if (this.state !== 'loading') return;
+		if (this.config.navigationMode === 'retarget' && this.pendingIndices.length > 0) {
+			this.transitionTarget = null;
+			return;
+		}
+
+		this.state = 'dispersing';
+		this.events.emit('animationstart', { ...this.getEventDetail(newIndex), animation: 'change' });
+
+		if (prefersReducedMotion()) {
+			this.transitionTarget = null;
+			this.swapImageContent(newItem, newTexture);
+			this.settle();
+			this.playVideo();
+			this.events.emit('animationend', { ...this.getEventDetail(), animation: 'change' });
+			this.preloadNeighbors();
+			return;
+		}
+
+		this.currentMesh.visible = false;
+		this.currentPoints.visible = true;
+		uniforms.uOpacity.value = 1.0;
+		uniforms.uTextureNext.value = newTexture;
+
+		if (!(await this.animateDispersion())) return;
+
+		// Head for the latest request once fully dispersed
+		while (this.config.navigationMode === 'retarget' && this.pendingIndices.length > 0) {
+			const index = this.pendingIndices.pop()!;
+			this.pendingIndices = [];
+			const item = this.images[index];
+			const media = this.getMediaFromItem(item);
+			if (!media) continue;
+
+			this.transitionTarget = index;
+			let texture: Texture;
+			try {
+				texture = await this.loadMediaTexture(media);
+			} catch (err) {
+				if (this.state !== 'dispersing') return;
+				// Keep heading for the image already loaded
+				this.transitionTarget = newIndex;
+				this.events.emit('error', { ...this.getEventDetail(index), error: err });
+				continue;
 			}
+			if (this.state !== 'dispersing') return;
+
+			newIndex = index;
+			newItem = item;
+			newTexture = texture;
+			uniforms.uTextureNext.value = texture;
+		}
+
+		this.transitionTarget = null;
+		if (newIndex !== this.currentIndex) {
+			this.swapImageContent(newItem, newTexture);
+		} else {
+			uniforms.uTextureNext.value = uniforms.uTexture.value;
+			uniforms.uTextureMix.value = 0.0;
+			if (this.captionElement) this.captionElement.classList.add('visible');
+		}
+
+		const completed = await this.reassemble();
+		// close() reports the end of an interrupted animation itself
+		if (this.isClosed()) return;
+
+		this.events.emit('animationend', { ...this.getEventDetail(), animation: 'change' });
+		if (completed) {
+			this.playVideo();
+			this.preloadNeighbors();
+		}
+	}
+
+	// Brings the particles together and crossfades to the flat mesh
+	private async reassemble(): Promise<boolean> {
+		this.state = 'reassembling';
+		const completed = await this.animateReassembly();
+		if (completed) this.settle();
+		return completed;
+	}
 
-			if (this.currentMesh) this.currentMesh.visible = false;
+	// Shows the flat mesh in place of the particles, unless they stay interactive
+	private settle(): void {
+		if (this.pointerField) {
 			if (this.currentPoints) {
-				this.currentPoints.visible = true;
-				(this.currentPoints.material as ShaderMaterial).uniforms.uOpacity.value = 1.0;
-				(this.currentPoints.material as ShaderMaterial).uniforms.uTextureNext.value = newTexture;
+				const uniforms = (this.currentPoints.material as ShaderMaterial).uniforms;
+				uniforms.uDispersion.value = 0.0;
+				uniforms.uTextureMix.value = 0.0;
+				uniforms.uOpacity.value = 1.0;
 			}
+			this.state = 'open';
+			return;
+		}
+		if (this.currentMesh) {
+			this.currentMesh.visible = true;
+			(this.currentMesh.material as MeshBasicMaterial).opacity = 1.0;
+		}
+		if (this.currentPoints) {
+			this.currentPoints.visible = false;
+			const uniforms = (this.currentPoints.material as ShaderMaterial).uniforms;
+			uniforms.uDispersion.value = 0.0;
+			uniforms.uTextureMix.value = 0.0;
+		}
+		this.state = 'open';
+	}
 
-			const disperseDuration = 800;
-			const startTime = Date.now();
+	private loadTexture(src: string): Promise<Texture> {
+		return this.textureCache.load(src);
+	}
 
-			const disperseFrame = () => {
-				const elapsed = Date.now() - startTime;
-				let progress = Math.min(elapsed / disperseDuration, 1.0);
-				const ease = progress * progress * (3 - 2 * progress);
+	// Falls back to the thumbnail (or video poster) when the full-size media fails to load
+	private async loadMediaTexture(media: GalleryMedia): Promise<Texture> {
+		const videoSrc = getVideoSource(media);
+		const src = getMediaSource(media, this.config.srcAttribute);
+		const stillSrc = getStillSource(media);
+		if (!src) throw new Error('Gallery item has no source');
 
-				if (this.currentPoints) {
-					(this.currentPoints.material as ShaderMaterial).uniforms.uDispersion.value = ease;
-					(this.currentPoints.material as ShaderMaterial).uniforms.uTextureMix.value = ease;
-				}
+		try {
+			return await (videoSrc ? this.textureCache.load(videoSrc, (s) => this.fetchVideoTexture(s)) : this.loadTexture(src));
+		} catch (err) {
+			if (!stillSrc || stillSrc === src) throw err;
+			console.warn(`Failed to load ${src}, falling back to the thumbnail`, err);
+			return this.loadTexture(stillSrc);
+		}
+	}
 
-				if (progress < 1.0) {
-					this.animationId = requestAnimationFrame(disperseFrame);
-				} else {
-					this.swapImageContent(newItem, newTexture);
-					this.animateReassembly();
-				}
-			};
-			this.animationId = requestAnimationFrame(disperseFrame);
-		}, undefined, (err: unknown) => {
-			console.error('Error loading texture:', err);
-			this.isAnimating = false;
+	private fetchTexture(src: string): Promise<Texture> {
+		const THREE = this.THREE!;
+		return new Promise((resolve, reject) => {
+			new THREE.TextureLoader().load(src, (texture: Texture) => {
+				texture.colorSpace = THREE.SRGBColorSpace;
+				resolve(texture);
+			}, undefined, reject);
+		});
+	}
+
+	private async fetchVideoTexture(src: string): Promise<Texture> {
+		const THREE = this.THREE!;
+		const video = createVideo(src);
+		// Some mobile browsers only fetch the first frame once playback starts
+		this.primingVideos.add(video);
+		video.play().then(() => {
+			// Unless the controls took over in the meantime
+			if (this.primingVideos.delete(video)) video.pause();
+		}, () => this.primingVideos.delete(video));
+		await waitForVideo(video);
+
+		const texture = new THREE.VideoTexture(video);
+		texture.colorSpace = THREE.SRGBColorSpace;
+		// Evicted videos stop downloading and release their decoder
+		texture.addEventListener('dispose', () => {
+			video.pause();
+			video.removeAttribute('src');
+			video.load();
+		});
+		return texture;
+	}
+
+	// Plays the settled video, if the current item is one
+	private playVideo(): void {
+		const texture = this.currentPoints ? (this.currentPoints.material as ShaderMaterial).uniforms.uTexture.value as Texture : null;
+		if (!(texture?.image instanceof HTMLVideoElement)) return;
+		this.primingVideos.delete(texture.image);
+		this.videoControls.attach(texture.image);
+	}
+
+	// Blurred backdrop: the loaded image, or the poster of a video
+	private getBackgroundSource(texture: Texture, media: GalleryMedia): string | null {
+		const source = texture.image as GalleryMedia;
+		return source instanceof HTMLVideoElement ? getStillSource(media) : source.src;
+	}
+
+	/**
+	 * Loads and uploads the previous and next images so navigation starts instantly
+	 */
+	private preloadNeighbors(): void {
+		const total = this.images.length;
+		if (!this.config.preload || total <= 1 || !this.THREE) return;
+
+		const neighbors = new Set([(this.currentIndex + 1) % total, (this.currentIndex - 1 + total) % total]);
+		neighbors.forEach((index) => {
+			const media = this.getMediaFromItem(this.images[index]);
+			// Videos stream when shown
+			if (!media || getVideoSource(media)) return;
+			const src = getMediaSource(media, this.config.srcAttribute);
+			if (!src || this.textureCache.has(src)) return;
+
+			this.textureCache.load(src)
+				.then((texture) => this.renderer?.initTexture(texture))
+				.catch(noop);
+		});
+	}
+
+	private isTextureInUse(texture: Texture): boolean {
+		if (!this.currentPoints) return false;
+		const uniforms = (this.currentPoints.material as ShaderMaterial).uniforms;
+		return uniforms.uTexture.value === texture || uniforms.uTextureNext.value === texture;
+	}
+
+	private animateDispersion(): Promise<boolean> {
+		const uniforms = (this.currentPoints!.material as ShaderMaterial).uniforms;
+		const startDispersion = uniforms.uDispersion.value;
+
+		// Resuming from a cut-short reassembly only covers the remaining distance
+		return this.runAnimation(800 * (1.0 - startDispersion), (progress) => {
+			const ease = progress * progress * (3 - 2 * progress);
+			uniforms.uDispersion.value = startDispersion + (1.0 - startDispersion) * ease;
+			uniforms.uTextureMix.value = ease;
 		});
 	}
 
@@ -601,29 +1378,28 @@ export class ParticleViewer {
 		if (!this.currentPoints || !this.currentMesh || !this.THREE) return;
 
 		const THREE = this.THREE;
-		const newImage = this.getImageFromItem(newItem);
-		if (!newImage) return;
+		const newMedia = this.getMediaFromItem(newItem);
+		if (!newMedia) return;
 
-		const textureImage = newTexture.image as HTMLImageElement;
 		const bgDuration = prefersReducedMotion() ? 0 : 1200;
-		this.updateBackground(newImage.getAttribute(this.config.srcAttribute) || newImage.getAttribute('src')!, bgDuration);
+		const background = this.getBackgroundSource(newTexture, newMedia);
+		if (background) this.updateBackground(background, bgDuration);
 
-		this.sourceImage = newImage;
-		this.currentIndex = Array.from(this.images).indexOf(newItem);
+		const previousIndex = this.currentIndex;
+		this.sourceMedia = newMedia;
+		// The item may have been removed during the transition (see refresh())
+		this.currentIndex = Math.max(Array.from(this.images).indexOf(newItem), 0);
 		this.updatePagination();
+		this.events.emit('change', { ...this.getEventDetail(), previousIndex });
 
-		if (this.captionElement) {
-			this.captionElement.innerText = newImage.getAttribute('alt') || '';
-			this.captionElement.classList.add('visible');
-		}
+		this.updateCaption();
 
 		(this.currentPoints.material as ShaderMaterial).uniforms.uTexture.value = newTexture;
 		(this.currentPoints.material as ShaderMaterial).uniforms.uTextureNext.value = newTexture;
 		(this.currentPoints.material as ShaderMaterial).uniforms.uTextureMix.value = 0.0;
 		(this.currentMesh.material as MeshBasicMaterial).map = newTexture;
 
-		const imgWidth = textureImage.naturalWidth;
-		const imgHeight = textureImage.naturalHeight;
+		const { width: imgWidth, height: imgHeight } = getIntrinsicSize(newTexture.image as GalleryMedia);
 
 		const tempGeo = new THREE.PlaneGeometry(imgWidth, imgHeight, this.config.segments, this.config.segments);
 
@@ -638,40 +1414,60 @@ export class ParticleViewer {
 		this.updateCamera();
 	}
 
-	private animateReassembly(): void {
-		const assembleDuration = 800;
-		const startTime = Date.now();
+	private animateReassembly(): Promise<boolean> {
+		const uniforms = (this.currentPoints!.material as ShaderMaterial).uniforms;
+		const meshMaterial = this.currentMesh!.material as MeshBasicMaterial;
+		const startDispersion = uniforms.uDispersion.value;
+		const startOpacity = this.currentMesh!.visible ? meshMaterial.opacity : 0.0;
+		const crossfadeStart = 0.5;
 
-		const assembleFrame = () => {
-			const elapsed = Date.now() - startTime;
-			let progress = Math.min(elapsed / assembleDuration, 1.0);
+		return this.runAnimation(800 * startDispersion, (progress) => {
 			const ease = 1 - Math.pow(1 - progress, 4);
-			const dispersionValue = 1.0 - ease;
+			uniforms.uDispersion.value = startDispersion * (1.0 - ease);
 
-			if (this.currentPoints) {
-				(this.currentPoints.material as ShaderMaterial).uniforms.uDispersion.value = dispersionValue;
-			}
-
-			const crossfadeStart = 0.5;
-			if (progress > crossfadeStart && this.currentMesh && this.currentPoints) {
+			if (progress > crossfadeStart && this.currentMesh && !this.pointerField) {
 				this.currentMesh.visible = true;
 				const fadeProgress = (progress - crossfadeStart) / (1.0 - crossfadeStart);
-				(this.currentMesh.material as MeshBasicMaterial).opacity = fadeProgress;
-				(this.currentPoints.material as ShaderMaterial).uniforms.uOpacity.value = 1.0 - fadeProgress;
+				meshMaterial.opacity = startOpacity + (1.0 - startOpacity) * fadeProgress;
+				uniforms.uOpacity.value = 1.0 - meshMaterial.opacity;
 			}
+		});
+	}
 
-			if (progress < 1.0) {
-				this.animationId = requestAnimationFrame(assembleFrame);
-			} else {
-				this.isAnimating = false;
-				if (this.currentMesh) {
-					this.currentMesh.visible = true;
-					(this.currentMesh.material as MeshBasicMaterial).opacity = 1.0;
+	/**
+	 * Calls 'onFrame' with linear progress (0-1) on every frame for 'duration' ms.
+	 * Resolves true once done, or false if cancelled by cancelAnimation()
+	 */
+	private runAnimation(duration: number, onFrame: (progress: number) => void): Promise<boolean> {
+		this.cancelAnimation();
+
+		return new Promise((resolve) => {
+			const startTime = Date.now();
+			const frame = () => {
+				const progress = duration > 0 ? Math.min((Date.now() - startTime) / duration, 1.0) : 1.0;
+				onFrame(progress);
+
+				if (progress < 1.0) {
+					this.animationId = requestAnimationFrame(frame);
+				} else {
+					this.animationId = null;
+					this.finishAnimation = null;
+					resolve(true);
 				}
-				if (this.currentPoints) this.currentPoints.visible = false;
-			}
-		};
-		this.animationId = requestAnimationFrame(assembleFrame);
+			};
+			this.finishAnimation = resolve;
+			frame();
+		});
+	}
+
+	private cancelAnimation(): void {
+		if (this.animationId !== null) {
+			cancelAnimationFrame(this.animationId);
+			this.animationId = null;
+		}
+		const finish = this.finishAnimation;
+		this.finishAnimation = null;
+		finish?.(false);
 	}
 
 	private updateCamera(): void {
@@ -680,7 +1476,7 @@ export class ParticleViewer {
 		const vpWidth = window.innerWidth;
 		const vpHeight = window.innerHeight;
 		this.renderer.setSize(vpWidth, vpHeight);
-		this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+		this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, this.quality.profile.maxPixelRatio));
 
 		const { viewWidth, viewHeight } = this.calculateViewDimensions();
 
@@ -693,16 +1489,50 @@ export class ParticleViewer {
 		const scale = vpHeight / viewHeight;
 		const pointWorldSize = this.imageWidth / this.config.segments;
 		const pointPixelSize = pointWorldSize * scale * this.renderer.getPixelRatio();
-		(this.currentPoints.material as ShaderMaterial).uniforms.uSize.value = Math.max(pointPixelSize, 2.0);
+		this.pointSize = Math.max(pointPixelSize, 2.0);
+		(this.currentPoints.material as ShaderMaterial).uniforms.uSize.value = this.pointSize;
+	}
+
+	// Size of the displayed image at zoom 1, in CSS pixels
+	private getDisplaySize(): { width: number; height: number } {
+		const { viewWidth, viewHeight } = this.calculateViewDimensions();
+		return {
+			width: this.imageWidth * (window.innerWidth / viewWidth),
+			height: this.imageHeight * (window.innerHeight / viewHeight),
+		};
+	}
+
+	// The image is fully assembled and nothing is animating
+	private isSettled(): boolean {
+		return this.currentPoints !== null && this.state === 'open' && !this.isBusy();
+	}
+
+	// Zooming narrows the camera frustum around the panned center
+	private applyZoom({ scale, x, y }: ZoomState): void {
+		if (!this.camera || !this.currentPoints) return;
+
+		const { viewWidth, viewHeight } = this.calculateViewDimensions();
+		const centerX = -x * (viewWidth / window.innerWidth) / scale;
+		const centerY = y * (viewHeight / window.innerHeight) / scale;
+		const halfWidth = viewWidth / scale / 2;
+		const halfHeight = viewHeight / scale / 2;
+
+		this.camera.left = centerX - halfWidth;
+		this.camera.right = centerX + halfWidth;
+		this.camera.top = centerY + halfHeight;
+		this.camera.bottom = centerY - halfHeight;
+		this.camera.updateProjectionMatrix();
+		// Interactive particles stay on screen, so they grow with the image
+		(this.currentPoints.material as ShaderMaterial).uniforms.uSize.value = this.pointSize * scale;
 	}
 
 	private updateStartPositions(): void {
-		if (!this.currentPoints || !this.sourceImage) return;
+		if (!this.currentPoints || !this.sourceMedia) return;
 
 		const geometry = this.currentPoints.geometry;
 		const startAttribute = geometry.getAttribute('aStartPosition');
 		const startPositions = startAttribute.array as Float32Array;
-		const imgRect = this.sourceImage.getBoundingClientRect();
+		const imgRect = this.sourceMedia.getBoundingClientRect();
 		const vpWidth = window.innerWidth;
 		const vpHeight = window.innerHeight;
 		const { viewWidth, viewHeight } = this.calculateViewDimensions();
@@ -720,54 +1550,31 @@ export class ParticleViewer {
 		startAttribute.needsUpdate = true;
 	}
 
-	private tweenProgress(target: number, duration: number, onComplete?: () => void): void {
-		if (!this.currentPoints) return;
-
-		const effectiveDuration = prefersReducedMotion() ? 0 : duration;
-
-		if (effectiveDuration <= 0) {
-			const material = this.currentPoints.material as ShaderMaterial;
-			material.uniforms.uProgress.value = target;
-
-			if (target === 1.0) {
-				if (this.currentMesh) {
-					this.currentMesh.visible = true;
-					(this.currentMesh.material as MeshBasicMaterial).opacity = 1.0;
-				}
-				if (this.currentPoints) {
-					this.currentPoints.visible = false;
-					material.uniforms.uOpacity.value = 0.0;
-				}
-				if (this.renderer && this.scene && this.camera) {
-					this.renderer.render(this.scene, this.camera);
-				}
-			} else if (target === 0.0) {
-				this.container.classList.remove('visible');
-				if (this.captionElement) this.captionElement.classList.remove('visible');
-			}
-
-			if (onComplete) onComplete();
-			return;
-		}
+	/**
+	 * Animates uProgress from its current value to 'target'. Resolves false if interrupted
+	 */
+	private tweenProgress(target: number, duration: number): Promise<boolean> {
+		if (!this.currentPoints) return Promise.resolve(false);
 
-		this.isAnimating = true;
 		const material = this.currentPoints.material as ShaderMaterial;
 		const startValue = material.uniforms.uProgress.value;
-		const startTime = Date.now();
+		const startDispersion = material.uniforms.uDispersion.value;
+		// Reversing part-way takes the matching share of the duration
+		const effectiveDuration = prefersReducedMotion() ? 0 : duration * Math.abs(target - startValue);
 
-		const frame = () => {
-			const elapsed = Date.now() - startTime;
-			let progress = Math.min(elapsed / duration, 1.0);
+		return this.runAnimation(effectiveDuration, (progress) => {
 			const easedProgress = 1 - Math.pow(1 - progress, 4);
 
 			material.uniforms.uProgress.value = startValue + (target - startValue) * easedProgress;
+			// Closing mid-transition gathers the dispersed particles on the way
+			material.uniforms.uDispersion.value = startDispersion * (1.0 - easedProgress);
 
 			if (target === 0.0 && progress > 0.6 && this.container.classList.contains('visible')) {
 				this.container.classList.remove('visible');
 				if (this.captionElement) this.captionElement.classList.remove('visible');
 			}
 
-			if (target === 1.0 && this.currentMesh) {
+			if (target === 1.0 && this.currentMesh && !this.pointerField) {
 				const meshMaterial = this.currentMesh.material as MeshBasicMaterial;
 				if (progress > this.config.crossfadeStart) {
 					this.currentMesh.visible = true;
@@ -779,43 +1586,23 @@ export class ParticleViewer {
 					meshMaterial.opacity = 0.0;
 					material.uniforms.uOpacity.value = 1.0;
 				}
-			}
 
-			if (progress < 1.0) {
-				this.animationId = requestAnimationFrame(frame);
-			} else {
-				if (target === 1.0) {
-					if (this.currentPoints) {
-						this.currentPoints.visible = false;
-						material.uniforms.uOpacity.value = 0.0;
-					}
-					if (this.currentMesh) {
-						this.currentMesh.visible = true;
-						(this.currentMesh.material as MeshBasicMaterial).opacity = 1.0;
-					}
-				}
-				this.isAnimating = false;
-				if (onComplete) onComplete();
+				if (progress >= 1.0 && this.currentPoints) this.currentPoints.visible = false;
 			}
-		};
-		if (this.animationId !== null) cancelAnimationFrame(this.animationId);
-		frame();
+		});
 	}
 
 	private cleanupScene(): void {
-		if (this.animationId !== null) cancelAnimationFrame(this.animationId);
-		this.isAnimating = false;
+		this.cancelAnimation();
 
 		if (this.currentPoints && this.scene) {
 			const geometry = this.currentPoints.geometry;
 			const material = this.currentPoints.material as ShaderMaterial;
-			const texture = material.uniforms.uTexture.value;
-			const textureNext = material.uniforms.uTextureNext.value;
 
 			this.scene.remove(this.currentPoints);
 			material.dispose();
 			this.currentPoints = null;
-			this.sourceImage = null;
+			this.sourceMedia = null;
 
 			if (this.currentMesh) {
 				this.scene.remove(this.currentMesh);
@@ -824,15 +1611,14 @@ export class ParticleViewer {
 			}
 
 			geometry.dispose();
-			texture.dispose();
-			if (textureNext !== texture) {
-				textureNext.dispose();
-			}
+			this.pointerField?.reset();
+			// Textures stay in the cache for reopening; only what exceeds the budget is freed
+			this.textureCache.trim();
 		}
 	}
 
 	private animate(): void {
-		if (!this.container.classList.contains('visible') && !this.isAnimating) {
+		if (!this.container.classList.contains('visible') && this.state === 'closed') {
 			this.renderId = null;
 			return;
 		}
@@ -840,14 +1626,36 @@ export class ParticleViewer {
 		if (this.currentPoints && this.clock) {
 			(this.currentPoints.material as ShaderMaterial).uniforms.uTime.value = this.clock.getElapsedTime();
 		}
+		if (this.currentPoints && this.camera && this.pointerField) {
+			this.pointerField.update((this.currentPoints.material as ShaderMaterial).uniforms, this.camera);
+		}
 		if (this.renderer && this.scene && this.camera) {
 			this.renderer.render(this.scene, this.camera);
+			this.quality.frame();
 		}
 		this.renderId = requestAnimationFrame(this.animate.bind(this));
 	}
 
-	private getImageFromItem(item: HTMLElement): HTMLImageElement | null {
-		return item instanceof HTMLImageElement ? item : item.querySelector('img');
+	// Renders the caption of the current item and announces the change
+	private updateCaption(): void {
+		const item = this.images[this.currentIndex];
+		const total = this.images.length;
+		const content = getCaptionContent(item, this.getMediaFromItem(item));
+		// "Image 3 of 7: caption", read before rendering moves the content
+		const position = formatLabel(this.labels.imagePosition, { index: this.currentIndex + 1, total });
+		const text = content?.textContent?.trim();
+		this.dialog.announce(text ? `${position}: ${text}` : position);
+
+		if (!this.captionElement) return;
+		const counter = this.config.captionCounter && total > 1
+			? formatLabel(this.labels.counter, { index: this.currentIndex + 1, total })
+			: null;
+		renderCaption(this.captionElement, content, counter);
+		this.captionElement.classList.add('visible');
+	}
+
+	private getMediaFromItem(item: HTMLElement): GalleryMedia | null {
+		return getItemMedia(item);
 	}
 
 	private calculateViewDimensions(): { viewWidth: number; viewHeight: number } {
@@ -882,27 +1690,28 @@ export class ParticleViewer {
 		return { viewWidth, viewHeight };
 	}
 
+	// Build-time preview of the item, shown until its image arrives and fades in on top
+	private showPlaceholder(media: GalleryMedia): void {
+		const placeholder = getPlaceholder(media);
+		if (!placeholder) return;
+
+		const backdrop = document.createElement('div');
+		backdrop.classList.add('particle-bg');
+		backdrop.style.background = placeholder;
+		Object.assign(backdrop.style, BACKGROUND_STYLE);
+		this.container.insertBefore(backdrop, this.renderer?.domElement ?? this.canvas);
+	}
+
 	private updateBackground(src: string, duration: number = 1200, delay: number = 0): void {
 		const img = document.createElement('img');
 		img.src = src;
 		img.classList.add('particle-bg');
-		Object.assign(img.style, {
-			position: 'absolute',
-			top: '0',
-			left: '0',
-			width: '100%',
-			height: '100%',
-			objectFit: 'cover',
-			filter: 'blur(30px) brightness(0.4)',
-			transform: 'scale(1.1)',
+		Object.assign(img.style, BACKGROUND_STYLE, {
 			opacity: '0',
 			transition: `opacity ${duration}ms ease ${delay}ms`,
-			willChange: 'opacity',
-			pointerEvents: 'none',
-			zIndex: '-1',
 		});
 
-		this.container.insertBefore(img, this.canvas);
+		this.container.insertBefore(img, this.renderer?.domElement ?? this.canvas);
 
 		const existingBgs = this.container.querySelectorAll('.particle-bg');
 
@@ -918,7 +1727,7 @@ export class ParticleViewer {
 					if (oldImg.parentNode === this.container) {
 						this.container.removeChild(oldImg);
 					}
-				}, duration);
+				}, duration + delay);
 			}
 		}
 	}
@@ -929,12 +1738,12 @@ export class ParticleViewer {
 			this.container.classList.remove('visible');
 			document.body.style.overflow = '';
 		}
+		this.dialog.destroy();
 
 		// Cancel animations
-		if (this.animationId !== null) {
-			cancelAnimationFrame(this.animationId);
-			this.animationId = null;
-		}
+		this.cancelAnimation();
+		this.pendingIndices = [];
+		this.state = 'closed';
 		if (this.renderId !== null) {
 			cancelAnimationFrame(this.renderId);
 			this.renderId = null;
@@ -942,26 +1751,61 @@ export class ParticleViewer {
 
 		// Clean up Three.js resources
 		this.cleanupScene();
-		if (this.renderer) {
-			this.renderer.dispose();
-			this.renderer = null;
-		}
+		this.textureCache.clear();
+		// Frees the shared context once no gallery uses it
+		this.watchContext(null);
+		this.hideFallback();
+		rendererManager.unregister(this);
+		this.renderer = null;
 
 		// Remove global event listeners
 		document.removeEventListener('keydown', this.boundKeydown);
 		window.removeEventListener('resize', this.boundResize);
-		this.container.removeEventListener('touchstart', this.boundTouchStart);
-		this.container.removeEventListener('touchend', this.boundTouchEnd);
 
 		// Remove image event listeners
-		this.imageHandlers.forEach((handlers, item) => {
-			item.removeEventListener('click', handlers.click);
-			item.removeEventListener('mouseenter', handlers.mouseenter);
-			item.removeEventListener('touchstart', handlers.touchstart);
-		});
-		this.imageHandlers.clear();
+		this.imageHandlers.forEach((_, item) => this.unbindItem(item));
+
+		if (this.itemObserver) {
+			this.itemObserver.destroy();
+			this.itemObserver = null;
+		}
 
 		// Clean up background images
 		this.container.querySelectorAll('.particle-bg').forEach(img => img.remove());
+
+		if (this.zoom) {
+			this.zoom.destroy();
+			this.zoom = null;
+		}
+
+		if (this.pointerField) {
+			this.pointerField.destroy();
+			this.pointerField = null;
+		}
+
+		if (this.slideshow) {
+			this.slideshow.destroy();
+			this.slideshow = null;
+		}
+
+		if (this.swipe) {
+			this.swipe.destroy();
+			this.swipe = null;
+		}
+
+		if (this.pagination) {
+			this.pagination.destroy();
+			this.pagination = null;
+		}
+
+		this.status.destroy();
+		this.videoControls.destroy();
+
+		// Drop event subscriptions
+		if (this.history) {
+			this.history.destroy();
+			this.history = null;
+		}
+		this.events.clear();
 	}
 }
@@ -1,3 +1,47 @@
+import { ViewerEventEmitter } from './events';
+import type { ViewerEventDetail, ViewerEventListener, ViewerEventName, ViewerState } from './events';
+import { ViewerHistory } from './history';
+import type { HistoryMode } from './history';
+import { ZoomController } from './zoom';
+import { Slideshow } from './slideshow';
+import { SwipeGestures } from './gestures';
+import { LoadingStatus } from './loading-status';
+import { Pagination } from './pagination';
+import { applyLabels, formatLabel, resolveLabels } from './i18n';
+import type { ViewerLabels } from './i18n';
+import { getItemMedia, getVideoSource, getStillSource, getMediaSource, getMediaLabel, waitForVideo, isAbortError } from './media';
+import type { GalleryMedia } from './media';
+import { getCaptionContent, renderCaption } from './caption';
+import { ModalDialog } from './dialog';
+import { ItemObserver } from './item-observer';
+import { KeyboardShortcuts, ZOOM_STEP, exitFullscreen, toggleFullscreen } from './keyboard';
+import type { Keymap } from './keyboard';
+import type { PaginationStyle } from './pagination';
+
+export interface SimpleLightboxConfig {
+	srcAttribute?: string;
+	history?: HistoryMode | false;
+	historyKey?: string;
+	zoom?: boolean;
+	maxZoom?: number;
+	slideshow?: boolean;
+	autoplay?: boolean;
+	slideshowInterval?: number;
+	slideshowLoop?: boolean;
+	preload?: boolean;
+	pagination?: PaginationStyle;
+	/** Locale of the labels; defaults to the page's `lang` */
+	locale?: string;
+	labels?: Partial<ViewerLabels>;
+	captionCounter?: boolean;
+	/** Keys of the shortcuts, replacing the defaults per action; false disables one */
+	keymap?: Keymap;
+	/** Refresh automatically when items matching the selector are added or removed */
+	observe?: boolean;
+}
+
+const noop = () => {};
+
 /**
  * SimpleLightbox - Lightbox without animations for users with prefers-reduced-motion
  * Does not use Three.js, only CSS and basic JS
@@ -5,45 +49,68 @@
 export class SimpleLightbox {
 	private container: HTMLElement;
 	private imageElement: HTMLImageElement;
+	private videoElement: HTMLVideoElement | null = null;
+	// Settles the wait of a video that is unloaded before it is ready
+	private videoLoad: AbortController | null = null;
 	private closeButton: HTMLButtonElement;
 	private prevButton: HTMLButtonElement;
 	private nextButton: HTMLButtonElement;
+	private slideshowButton: HTMLButtonElement | null;
 	private captionElement: HTMLElement | null;
 	private paginationElement: HTMLElement | null;
+	private imageSelector: string;
 	private images: NodeListOf<HTMLElement>;
 	private currentIndex: number = 0;
-	private dotsContainer: HTMLElement | null = null;
-	private prevPageButton: HTMLButtonElement | null = null;
-	private nextPageButton: HTMLButtonElement | null = null;
-	private paginationStartIndex: number = 0;
-	private maxVisibleDots: number = 5;
-	private touchStartX: number = 0;
-	private touchStartY: number = 0;
-	private readonly swipeThreshold: number = 50;
 	private srcAttribute: string;
+	private preload: boolean;
+	private paginationStyle: PaginationStyle;
+	private pagination: Pagination | null = null;
+	private labels: ViewerLabels;
+	private captionCounter: boolean;
+	private events: ViewerEventEmitter;
+	private history: ViewerHistory | null = null;
+	private zoom: ZoomController | null = null;
+	private slideshow: Slideshow | null = null;
+	private swipe: SwipeGestures | null = null;
+	private itemObserver: ItemObserver | null = null;
+	private status: LoadingStatus;
+	private dialog: ModalDialog;
 
 	// Bound event handlers for cleanup
+	private shortcuts!: KeyboardShortcuts;
 	private boundKeydown!: (e: KeyboardEvent) => void;
-	private boundTouchStart!: (e: TouchEvent) => void;
-	private boundTouchEnd!: (e: TouchEvent) => void;
 	private imageClickHandlers: Map<HTMLElement, () => void> = new Map();
 
-	constructor(containerSelector: string, imageSelector: string, srcAttribute: string = 'src') {
+	constructor(containerSelector: string, imageSelector: string, options: string | SimpleLightboxConfig = 'src') {
+		const config: SimpleLightboxConfig = typeof options === 'string' ? { srcAttribute: options } : options;
+
 		const container = document.querySelector(containerSelector);
 		if (!container) throw new Error('Container element not found');
 		this.container = container as HTMLElement;
+		this.events = new ViewerEventEmitter(this.container);
 
 		this.closeButton = this.container.querySelector<HTMLButtonElement>('.close-button')!;
 		this.prevButton = this.container.querySelector<HTMLButtonElement>('.nav-button.prev')!;
 		this.nextButton = this.container.querySelector<HTMLButtonElement>('.nav-button.next')!;
+		this.slideshowButton = this.container.querySelector<HTMLButtonElement>('.slideshow-button');
 		this.captionElement = this.container.querySelector<HTMLElement>('.caption');
 		this.paginationElement = this.container.querySelector<HTMLElement>('.pagination');
+		this.status = new LoadingStatus(this.container);
+		this.dialog = new ModalDialog(this.container);
 
+		this.imageSelector = imageSelector;
 		this.images = document.querySelectorAll(imageSelector);
-		this.srcAttribute = srcAttribute;
+		this.srcAttribute = config.srcAttribute ?? 'src';
+		this.preload = config.preload ?? true;
+		this.paginationStyle = config.pagination ?? 'dots';
+		this.labels = resolveLabels(config.locale, config.labels);
+		this.captionCounter = config.captionCounter ?? false;
+		applyLabels(this.container, this.labels);
 
 		this.imageElement = document.createElement('img');
 		this.imageElement.className = 'simple-lightbox-image';
+		// Dragging the image swipes instead of starting a drag-and-drop
+		this.imageElement.draggable = false;
 		Object.assign(this.imageElement.style, {
 			position: 'fixed',
 			top: '50%',
@@ -56,23 +123,100 @@ export class SimpleLightbox {
 		});
 		this.container.appendChild(this.imageElement);
 
-		const hasMultipleImages = this.images.length > 1;
-		if (!hasMultipleImages) {
-			this.prevButton.hidden = true;
-			this.nextButton.hidden = true;
-			if (this.paginationElement) this.paginationElement.hidden = true;
+		this.bindEvents(config.keymap);
+
+		if (config.zoom ?? true) {
+			const maxZoom = config.maxZoom ?? 4;
+			this.zoom = new ZoomController({
+				element: this.container,
+				getContentSize: () => ({
+					width: this.imageElement.offsetWidth,
+					height: this.imageElement.offsetHeight,
+				}),
+				canZoom: () => this.container.classList.contains('visible')
+					&& !this.imageElement.hidden
+					&& this.imageElement.complete
+					&& this.imageElement.naturalWidth > 0,
+				apply: ({ scale, x, y }) => {
+					this.imageElement.style.transform = `translate(-50%, -50%) translate(${x}px, ${y}px) scale(${scale})`;
+				},
+			}, {
+				maxZoom,
+				doubleTapZoom: Math.min(2.5, maxZoom),
+			});
 		}
 
-		this.bindEvents();
-		if (hasMultipleImages) this.initPagination();
+		this.swipe = new SwipeGestures(this, {
+			element: this.container,
+			canSwipe: () => this.container.classList.contains('visible') && !this.zoom?.suppressesSwipe(),
+			canNavigate: () => this.images.length > 1,
+			apply: ({ x, y }) => {
+				const transform = `translate(-50%, -50%) translate(${x}px, ${y}px)`;
+				this.imageElement.style.transform = transform;
+				if (this.videoElement) this.videoElement.style.transform = transform;
+			},
+			navigate: (direction) => {
+				(direction > 0 ? this.next() : this.prev()).catch(noop);
+			},
+			dismiss: () => {
+				this.close();
+			},
+		});
+
+		if (config.slideshow || config.autoplay) {
+			this.slideshow = new Slideshow(this, this.container, {
+				interval: config.slideshowInterval ?? 5000,
+				loop: config.slideshowLoop ?? true,
+				autostart: config.autoplay ?? false,
+				getImageRect: () => this.imageElement.getBoundingClientRect(),
+				labels: this.labels,
+			});
+		}
+
+		this.updateControls();
+
+		if (config.observe) {
+			this.itemObserver = new ItemObserver(this.container, imageSelector, () => this.images, () => this.refresh());
+		}
+
+		if (config.history) {
+			const key = config.historyKey || this.container.id || 'gallery';
+			this.history = new ViewerHistory(this, key, config.history);
+			this.history.restore();
+		}
 	}
 
-	private bindEvents(): void {
-		this.images.forEach((item) => {
-			const handler = () => this.open(item);
-			this.imageClickHandlers.set(item, handler);
-			item.addEventListener('click', handler);
-		});
+	public on<K extends ViewerEventName>(type: K, listener: ViewerEventListener<K>): () => void {
+		return this.events.on(type, listener);
+	}
+
+	public off<K extends ViewerEventName>(type: K, listener: ViewerEventListener<K>): void {
+		this.events.off(type, listener);
+	}
+
+	private getEventDetail(index: number = this.currentIndex): ViewerEventDetail {
+		const media = this.images[index] ? this.getMediaFromItem(this.images[index]) : null;
+		const src = media ? getMediaSource(media, this.srcAttribute) : null;
+		return { index, src };
+	}
+
+	private bindItem(item: HTMLElement): void {
+		const handler = () => {
+			this.open(item).catch(noop);
+		};
+		this.imageClickHandlers.set(item, handler);
+		item.addEventListener('click', handler);
+	}
+
+	private unbindItem(item: HTMLElement): void {
+		const handler = this.imageClickHandlers.get(item);
+		if (!handler) return;
+		item.removeEventListener('click', handler);
+		this.imageClickHandlers.delete(item);
+	}
+
+	private bindEvents(keymap: Keymap = {}): void {
+		this.images.forEach((item) => this.bindItem(item));
 
 		this.closeButton.addEventListener('click', () => this.close());
 		this.container.addEventListener('click', (e) => {
@@ -81,255 +225,476 @@ export class SimpleLightbox {
 
 		this.prevButton.addEventListener('click', (e) => {
 			e.stopPropagation();
-			this.prev();
+			this.prev().catch(noop);
 		});
 
 		this.nextButton.addEventListener('click', (e) => {
 			e.stopPropagation();
-			this.next();
+			this.next().catch(noop);
 		});
 
+		this.shortcuts = new KeyboardShortcuts(this.container, {
+			close: () => {
+				this.close();
+			},
+			prev: () => {
+				this.prev().catch(noop);
+			},
+			next: () => {
+				this.next().catch(noop);
+			},
+			first: () => this.jumpTo(0),
+			last: () => this.jumpTo(this.images.length - 1),
+			jump: (index) => this.jumpTo(index),
+			slideshow: (event) => {
+				if (!this.slideshow || this.images.length <= 1) return false;
+				this.slideshow.toggle(event);
+			},
+			zoomIn: () => {
+				if (!this.zoom) return false;
+				this.zoom.zoomBy(ZOOM_STEP);
+			},
+			zoomOut: () => {
+				if (!this.zoom) return false;
+				this.zoom.zoomBy(1 / ZOOM_STEP);
+			},
+			zoomReset: () => {
+				if (!this.zoom) return false;
+				this.zoom.zoomTo(1, undefined, undefined, true);
+			},
+			fullscreen: () => toggleFullscreen(this.container),
+		}, keymap);
+
 		this.boundKeydown = (event: KeyboardEvent) => {
 			if (this.container.classList.contains('visible')) {
-				if (event.key === 'Escape') this.close();
-				if (event.key === 'ArrowLeft') {
-					event.preventDefault();
-					this.prev();
-				}
-				if (event.key === 'ArrowRight') {
-					event.preventDefault();
-					this.next();
-				}
-
 				if (event.key === 'Tab') {
-					const focusable = this.images.length > 1
-						? [this.closeButton, this.prevButton, this.nextButton]
-						: [this.closeButton];
-					const first = focusable[0];
-					const last = focusable[focusable.length - 1];
-
-					if (event.shiftKey && document.activeElement === first) {
-						event.preventDefault();
-						last.focus();
-					} else if (!event.shiftKey && document.activeElement === last) {
-						event.preventDefault();
-						first.focus();
-					}
-				}
-			}
-		};
-		document.addEventListener('keydown', this.boundKeydown);
-
-		this.boundTouchStart = (e: TouchEvent) => {
-			this.touchStartX = e.touches[0].clientX;
-			this.touchStartY = e.touches[0].clientY;
-		};
-		this.container.addEventListener('touchstart', this.boundTouchStart, { passive: true });
-
-		this.boundTouchEnd = (e: TouchEvent) => {
-			if (!this.container.classList.contains('visible')) return;
-			if (this.images.length <= 1) return;
-
-			const touchEndX = e.changedTouches[0].clientX;
-			const touchEndY = e.changedTouches[0].clientY;
-			const deltaX = touchEndX - this.touchStartX;
-			const deltaY = touchEndY - this.touchStartY;
-
-			if (Math.abs(deltaX) > Math.abs(deltaY) && Math.abs(deltaX) > this.swipeThreshold) {
-				if (deltaX > 0) {
-					this.prev();
+					this.dialog.trapFocus(event);
 				} else {
-					this.next();
+					this.shortcuts.handle(event);
 				}
 			}
 		};
-		this.container.addEventListener('touchend', this.boundTouchEnd, { passive: true });
+		document.addEventListener('keydown', this.boundKeydown);
 	}
 
 	private initPagination(): void {
 		if (!this.paginationElement) return;
-		this.paginationElement.innerHTML = '';
-
-		const totalImages = this.images.length;
-		const needsNavigation = totalImages > this.maxVisibleDots;
-
-		if (needsNavigation) {
-			this.prevPageButton = document.createElement('button');
-			this.prevPageButton.className = 'pagination-nav';
-			this.prevPageButton.innerHTML = '&#10094;';
-			this.prevPageButton.ariaLabel = 'Imagen anterior';
-			this.prevPageButton.addEventListener('click', (e) => {
-				e.stopPropagation();
-				this.prev();
-			});
-			this.paginationElement.appendChild(this.prevPageButton);
-		}
-
-		this.dotsContainer = document.createElement('div');
-		this.dotsContainer.className = 'pagination-dots';
-		this.paginationElement.appendChild(this.dotsContainer);
-
-		this.images.forEach((_, index) => {
-			const dot = document.createElement('button');
-			dot.className = 'pagination-dot';
-			dot.innerText = (index + 1).toString();
-			dot.ariaLabel = `Ir a imagen ${index + 1}`;
-			dot.addEventListener('click', (e) => {
-				e.stopPropagation();
+		this.pagination?.destroy();
+
+		this.pagination = new Pagination(this.paginationElement, {
+			style: this.paginationStyle,
+			thumbnails: Array.from(this.images, (item) => {
+				const media = this.getMediaFromItem(item);
+				if (!media) return '';
+				return media instanceof HTMLImageElement ? media.currentSrc || media.src : getStillSource(media) || '';
+			}),
+			onSelect: (index) => {
 				if (this.currentIndex !== index) {
-					this.goTo(index);
+					this.goTo(index).catch(noop);
 				}
-			});
-			this.dotsContainer!.appendChild(dot);
+			},
+			onPrev: () => this.prev().catch(noop),
+			onNext: () => this.next().catch(noop),
+			labels: this.labels,
 		});
+		this.pagination.update(this.currentIndex);
+	}
 
-		if (needsNavigation) {
-			this.nextPageButton = document.createElement('button');
-			this.nextPageButton.className = 'pagination-nav';
-			this.nextPageButton.innerHTML = '&#10095;';
-			this.nextPageButton.ariaLabel = 'Imagen siguiente';
-			this.nextPageButton.addEventListener('click', (e) => {
-				e.stopPropagation();
-				this.next();
-			});
-			this.paginationElement.appendChild(this.nextPageButton);
-		}
-
-		this.updatePaginationVisibility();
+	private updatePagination(): void {
+		this.pagination?.update(this.currentIndex);
 	}
 
-	private updatePaginationVisibility(): void {
-		if (!this.dotsContainer) return;
+	// Navigation controls only make sense with several items
+	private updateControls(): void {
+		const hasMultipleImages = this.images.length > 1;
+		this.prevButton.hidden = !hasMultipleImages;
+		this.nextButton.hidden = !hasMultipleImages;
+		if (this.slideshowButton && this.slideshow) this.slideshowButton.hidden = !hasMultipleImages;
+		if (this.paginationElement) this.paginationElement.hidden = !hasMultipleImages;
+
+		if (hasMultipleImages) {
+			this.initPagination();
+		} else {
+			this.pagination?.destroy();
+			this.pagination = null;
+		}
+	}
 
-		const dots = this.dotsContainer.children;
-		const total = this.images.length;
+	/**
+	 * Picks up gallery items added or removed since the lightbox was created:
+	 * binds the new ones, releases detached ones and rebuilds the pagination.
+	 * The current image keeps its index when it moved; when it was removed the
+	 * item that took its place becomes current
+	 */
+	public refresh(): void {
+		const previousItems = Array.from(this.images);
+		this.images = document.querySelectorAll(this.imageSelector);
+		const items = Array.from(this.images);
+		if (items.length === previousItems.length && items.every((item, i) => item === previousItems[i])) return;
+
+		this.imageClickHandlers.forEach((_, item) => {
+			if (!items.includes(item)) this.unbindItem(item);
+		});
+		items.forEach((item) => {
+			if (!this.imageClickHandlers.has(item)) this.bindItem(item);
+		});
 
-		let startIndex = this.paginationStartIndex;
-		const endIndex = Math.min(startIndex + this.maxVisibleDots, total);
+		const current = items.indexOf(previousItems[this.currentIndex]);
+		this.currentIndex = current >= 0 ? current : Math.max(Math.min(this.currentIndex, items.length - 1), 0);
 
-		if (endIndex - startIndex < this.maxVisibleDots && total >= this.maxVisibleDots) {
-			startIndex = total - this.maxVisibleDots;
-		}
+		this.updateControls();
 
-		for (let i = 0; i < dots.length; i++) {
-			const dot = dots[i] as HTMLElement;
-			const isVisible = i >= startIndex && i < endIndex;
-			dot.style.display = isVisible ? 'flex' : 'none';
+		if (!this.container.classList.contains('visible')) return;
+		if (items.length === 0) {
+			this.close();
+		} else if (current < 0) {
+			// The item on screen is gone: show the one that took its place
+			this.showItem(this.currentIndex).catch(noop);
+		} else {
+			this.updateCaption();
 		}
 	}
 
-	private updatePagination(): void {
-		if (!this.dotsContainer) return;
-
-		const dots = this.dotsContainer.children;
-		for (let i = 0; i < dots.length; i++) {
-			dots[i].classList.toggle('active', i === this.currentIndex);
-		}
-
+	// Renders the caption of the current item and announces the change
+	private updateCaption(): void {
+		const item = this.images[this.currentIndex];
 		const total = this.images.length;
-		if (total > this.maxVisibleDots) {
-			const minStart = Math.max(0, this.currentIndex - this.maxVisibleDots + 1);
-			const maxStart = Math.min(this.currentIndex, total - this.maxVisibleDots);
-
-			if (this.paginationStartIndex < minStart) {
-				this.paginationStartIndex = minStart;
-			} else if (this.paginationStartIndex > maxStart) {
-				this.paginationStartIndex = maxStart;
-			}
-		}
-
-		this.updatePaginationVisibility();
+		const content = getCaptionContent(item, this.getMediaFromItem(item));
+		// "Image 3 of 7: caption", read before rendering moves the content
+		const position = formatLabel(this.labels.imagePosition, { index: this.currentIndex + 1, total });
+		const text = content?.textContent?.trim();
+		this.dialog.announce(text ? `${position}: ${text}` : position);
+
+		if (!this.captionElement) return;
+		const counter = this.captionCounter && total > 1
+			? formatLabel(this.labels.counter, { index: this.currentIndex + 1, total })
+			: null;
+		renderCaption(this.captionElement, content, counter);
+		this.captionElement.classList.add('visible');
 	}
 
-	private getImageFromItem(item: HTMLElement): HTMLImageElement | null {
-		return item instanceof HTMLImageElement ? item : item.querySelector('img');
+	private getMediaFromItem(item: HTMLElement): GalleryMedia | null {
+		return getItemMedia(item);
 	}
 
-	public open(item: HTMLElement): void {
-		const img = this.getImageFromItem(item);
-		if (!img) return;
+	/**
+	 * Opens the lightbox on a gallery item. Resolves once the image has loaded
+	 */
+	public async open(item: HTMLElement): Promise<void> {
+		const index = Array.from(this.images).indexOf(item);
+		if (index < 0) throw new Error('Item is not part of the gallery');
+		// Already open: a change of image, not a new opening
+		if (this.container.classList.contains('visible')) return this.goTo(index);
+		const media = this.getMediaFromItem(item);
+		if (!media) throw new Error('Gallery item has no image or video');
 
-		this.currentIndex = Array.from(this.images).indexOf(item);
+		this.currentIndex = index;
 		this.updatePagination();
+		this.events.emit('open', this.getEventDetail());
 
-		const imgSrc = img.getAttribute(this.srcAttribute) || img.getAttribute('src');
-		if (imgSrc) {
-			this.imageElement.src = imgSrc;
-			this.imageElement.alt = img.getAttribute('alt') || '';
-		}
-
-		if (this.captionElement) {
-			this.captionElement.innerText = img.getAttribute('alt') || '';
-			this.captionElement.classList.add('visible');
-		}
+		this.updateCaption();
 
+		this.dialog.open();
 		this.container.classList.add('visible');
 		document.body.style.overflow = 'hidden';
 		this.closeButton.focus();
+
+		await this.displayMedia(media);
+		// Closed or moved on while loading
+		if (!this.container.classList.contains('visible') || this.currentIndex !== index) return;
+		this.events.emit('opened', this.getEventDetail());
+		this.preloadNeighbors();
 	}
 
-	public close(): void {
+	/**
+	 * Opens the lightbox on the image at 'index', or navigates to it if already open
+	 */
+	public openAt(index: number): Promise<void> {
+		return this.goTo(index);
+	}
+
+	public close(): Promise<void> {
+		if (!this.container.classList.contains('visible')) return Promise.resolve();
+
+		this.events.emit('close', this.getEventDetail());
+		this.zoom?.reset();
+		this.status.reset();
+		this.hideVideo();
+		exitFullscreen(this.container);
 		this.container.classList.remove('visible');
 		if (this.captionElement) this.captionElement.classList.remove('visible');
 		document.body.style.overflow = '';
 
-		if (this.images[this.currentIndex]) {
-			this.images[this.currentIndex].focus();
-		}
+		this.dialog.close(this.images[this.currentIndex]);
+		this.events.emit('closed', this.getEventDetail());
+		return Promise.resolve();
 	}
 
-	public next(): void {
-		if (this.images.length <= 1) return;
+	public next(): Promise<void> {
+		if (this.images.length <= 1) return Promise.resolve();
 		const nextIndex = (this.currentIndex + 1) % this.images.length;
-		this.goTo(nextIndex);
+		return this.goTo(nextIndex);
 	}
 
-	public prev(): void {
-		if (this.images.length <= 1) return;
+	public prev(): Promise<void> {
+		if (this.images.length <= 1) return Promise.resolve();
 		const prevIndex = (this.currentIndex - 1 + this.images.length) % this.images.length;
-		this.goTo(prevIndex);
+		return this.goTo(prevIndex);
 	}
 
-	private goTo(index: number): void {
+	// Number keys, Home and End; false when there is no such image
+	private jumpTo(index: number): boolean {
+		if (this.images.length <= 1 || index >= this.images.length) return false;
+		if (this.currentIndex !== index) this.goTo(index).catch(noop);
+		return true;
+	}
+
+	/**
+	 * Navigates to the image at 'index', opening the lightbox if it is closed.
+	 * Resolves once the new image has loaded
+	 */
+	public async goTo(index: number): Promise<void> {
+		if (!Number.isInteger(index) || index < 0 || index >= this.images.length) {
+			throw new RangeError(`Image index ${index} out of range`);
+		}
+
 		const item = this.images[index];
-		const img = this.getImageFromItem(item);
-		if (!img) return;
+		if (!this.container.classList.contains('visible')) return this.open(item);
+		if (index === this.currentIndex) return;
+		return this.showItem(index);
+	}
+
+	// Moves the open lightbox to the image at 'index'
+	private async showItem(index: number): Promise<void> {
+		const media = this.getMediaFromItem(this.images[index]);
+		if (!media) throw new Error('Gallery item has no image or video');
 
+		const previousIndex = this.currentIndex;
 		this.currentIndex = index;
+		this.zoom?.reset();
 		this.updatePagination();
 
-		const imgSrc = img.getAttribute(this.srcAttribute) || img.getAttribute('src');
-		if (imgSrc) {
-			this.imageElement.src = imgSrc;
-			this.imageElement.alt = img.getAttribute('alt') || '';
-		}
+		this.updateCaption();
 
-		if (this.captionElement) {
-			this.captionElement.innerText = img.getAttribute('alt') || '';
-			this.captionElement.classList.add('visible');
+		this.events.emit('change', { ...this.getEventDetail(), previousIndex });
+		await this.displayMedia(media);
+		this.preloadNeighbors();
+	}
+
+	// Warms the browser cache with the previous and next images
+	private preloadNeighbors(): void {
+		const total = this.images.length;
+		if (!this.preload || total <= 1) return;
+
+		const neighbors = new Set([(this.currentIndex + 1) % total, (this.currentIndex - 1 + total) % total]);
+		neighbors.forEach((index) => {
+			const media = this.getMediaFromItem(this.images[index]);
+			// Videos stream when shown
+			if (!media || getVideoSource(media)) return;
+			const src = getMediaSource(media, this.srcAttribute);
+			if (!src) return;
+			const image = new Image();
+			image.decoding = 'async';
+			image.src = src;
+		});
+	}
+
+	/**
+	 * Starts the slideshow, if enabled in the config
+	 */
+	public play(): void {
+		this.slideshow?.play();
+	}
+
+	/**
+	 * Pauses the slideshow
+	 */
+	public pause(): void {
+		this.slideshow?.pause();
+	}
+
+	public getState(): ViewerState {
+		const { index, src } = this.getEventDetail();
+		return {
+			index,
+			total: this.images.length,
+			isOpen: this.container.classList.contains('visible'),
+			isAnimating: false,
+			src,
+		};
+	}
+
+	// Falls back to the thumbnail (or video poster) when the full-size media fails to load
+	private async displayMedia(media: GalleryMedia): Promise<void> {
+		const index = this.currentIndex;
+		const videoSrc = getVideoSource(media);
+		const src = getMediaSource(media, this.srcAttribute);
+		const stillSrc = getStillSource(media);
+		const label = getMediaLabel(media);
+
+		this.imageElement.alt = label;
+		this.imageElement.hidden = videoSrc !== null;
+		this.hideVideo();
+		this.status.hideError();
+		this.status.showLoading();
+
+		try {
+			if (!src) throw new Error('Gallery item has no source');
+			try {
+				if (videoSrc) await this.loadVideo(videoSrc, stillSrc, label);
+				else await this.loadImage(src);
+			} catch (err) {
+				// Unloaded by navigating away or closing: no fallback, the request rejects
+				if (isAbortError(err) || !stillSrc || stillSrc === src) throw err;
+				console.warn(`Failed to load ${src}, falling back to the thumbnail`, err);
+				this.hideVideo();
+				this.imageElement.hidden = false;
+				await this.loadImage(stillSrc);
+			}
+		} catch (error) {
+			// Ignore failures of an image the user already navigated away from
+			if (this.currentIndex === index && this.container.classList.contains('visible')) {
+				this.imageElement.hidden = true;
+				this.hideVideo();
+				this.events.emit('error', { ...this.getEventDetail(), error });
+				this.status.showError(() => this.displayMedia(media).catch(noop));
+			}
+			throw error;
+		} finally {
+			if (this.currentIndex === index) this.status.hideLoading();
 		}
 	}
 
+	/**
+	 * Shows the video with native controls, starting muted so autoplay
+	 * policies allow it; if still refused, the controls offer to play it
+	 */
+	private loadVideo(src: string, poster: string | null, label: string): Promise<void> {
+		const video = this.getVideoElement();
+		if (poster) video.poster = poster;
+		else video.removeAttribute('poster');
+		video.ariaLabel = label;
+		video.src = src;
+		video.hidden = false;
+		video.play().catch(noop);
+		this.videoLoad = new AbortController();
+		return waitForVideo(video, this.videoLoad.signal).then(noop);
+	}
+
+	private getVideoElement(): HTMLVideoElement {
+		if (this.videoElement) return this.videoElement;
+
+		const video = document.createElement('video');
+		video.className = 'simple-lightbox-video';
+		video.controls = true;
+		video.muted = true;
+		video.loop = true;
+		video.playsInline = true;
+		Object.assign(video.style, {
+			position: 'fixed',
+			top: '50%',
+			left: '50%',
+			transform: 'translate(-50%, -50%)',
+			maxWidth: '90vw',
+			maxHeight: '85vh',
+			zIndex: '5',
+		});
+		this.container.appendChild(video);
+		this.videoElement = video;
+		return video;
+	}
+
+	// Stops the current video, including its download
+	private hideVideo(): void {
+		this.videoLoad?.abort();
+		this.videoLoad = null;
+		const video = this.videoElement;
+		if (!video || !video.hasAttribute('src')) return;
+		video.pause();
+		video.hidden = true;
+		video.removeAttribute('src');
+		video.load();
+	}
+
+	private loadImage(src: string): Promise<void> {
+		this.imageElement.src = src;
+		return this.waitForImage();
+	}
+
+	private waitForImage(): Promise<void> {
+		const image = this.imageElement;
+		if (image.complete && image.naturalWidth > 0) return Promise.resolve();
+
+		return new Promise((resolve, reject) => {
+			const onLoad = () => {
+				cleanup();
+				resolve();
+			};
+			const onError = () => {
+				cleanup();
+				reject(new Error(`Failed to load image: ${image.src}`));
+			};
+			const cleanup = () => {
+				image.removeEventListener('load', onLoad);
+				image.removeEventListener('error', onError);
+			};
+			image.addEventListener('load', onLoad);
+			image.addEventListener('error', onError);
+		});
+	}
+
 	public destroy(): void {
 		// Close if open
 		if (this.container.classList.contains('visible')) {
 			this.close();
 		}
+		this.dialog.destroy();
 
 		// Remove global event listeners
 		document.removeEventListener('keydown', this.boundKeydown);
-		this.container.removeEventListener('touchstart', this.boundTouchStart);
-		this.container.removeEventListener('touchend', this.boundTouchEnd);
 
 		// Remove image click handlers
-		this.imageClickHandlers.forEach((handler, item) => {
-			item.removeEventListener('click', handler);
-		});
-		this.imageClickHandlers.clear();
+		this.imageClickHandlers.forEach((_, item) => this.unbindItem(item));
+
+		if (this.itemObserver) {
+			this.itemObserver.destroy();
+			this.itemObserver = null;
+		}
 
-		// Remove created image element
+		// Remove created image and video elements
 		if (this.imageElement.parentNode) {
 			this.imageElement.parentNode.removeChild(this.imageElement);
 		}
+		this.videoElement?.remove();
+		this.videoElement = null;
+
+		if (this.zoom) {
+			this.zoom.destroy();
+			this.zoom = null;
+		}
+
+		if (this.slideshow) {
+			this.slideshow.destroy();
+			this.slideshow = null;
+		}
+
+		if (this.swipe) {
+			this.swipe.destroy();
+			this.swipe = null;
+		}
+
+		if (this.pagination) {
+			this.pagination.destroy();
+			this.pagination = null;
+		}
+
+		this.status.destroy();
+
+		// Drop event subscriptions
+		if (this.history) {
+			this.history.destroy();
+			this.history = null;
+		}
+		this.events.clear();
 	}
 }
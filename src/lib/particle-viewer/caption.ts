@@ -0,0 +1,135 @@
+/**
+ * Captions of the gallery items, shared by both viewers
+ *
+ * Sources, in order of preference:
+ * 1. A `<template data-piv-caption>` inside the item (the `caption` slot of ParticleImage)
+ * 2. A `<figcaption>` inside the item, or in the `<figure>` the item is a direct child of
+ * 3. `data-title`, `data-caption` and `data-credit` on the item or its image
+ * 4. The `alt` of the image
+ *
+ * Markup is reduced to a small allowlist of inline elements and safe links.
+ * Captions are display copy only: the alt text stays the accessible name.
+ */
+import { getMediaLabel } from './media';
+import type { GalleryMedia } from './media';
+
+const ALLOWED_TAGS = new Set(['A', 'B', 'BR', 'CITE', 'EM', 'I', 'P', 'SMALL', 'SPAN', 'STRONG']);
+// Removed with their content; any other element is replaced by its children
+const DROPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'TEMPLATE', 'IFRAME', 'OBJECT', 'EMBED', 'NOSCRIPT']);
+const SAFE_PROTOCOLS = new Set(['http:', 'https:', 'mailto:']);
+
+function isSafeUrl(href: string): boolean {
+	try {
+		return SAFE_PROTOCOLS.has(new URL(href, window.location.href).protocol);
+	} catch {
+		return false;
+	}
+}
+
+function cleanNode(parent: Node): void {
+	Array.from(parent.childNodes).forEach((node) => {
+		if (node.nodeType === Node.TEXT_NODE) return;
+		if (node.nodeType !== Node.ELEMENT_NODE) {
+			node.parentNode?.removeChild(node);
+			return;
+		}
+
+		const element = node as Element;
+		if (DROPPED_TAGS.has(element.tagName)) {
+			element.remove();
+			return;
+		}
+
+		cleanNode(element);
+		if (!ALLOWED_TAGS.has(element.tagName)) {
+			element.replaceWith(...Array.from(element.childNodes));
+			return;
+		}
+
+		Array.from(element.attributes).forEach((attribute) => {
+			const keep = attribute.name === 'class' || (element.tagName === 'A' && attribute.name === 'href');
+			if (!keep) element.removeAttribute(attribute.name);
+		});
+
+		if (element.tagName === 'A') {
+			const href = element.getAttribute('href');
+			if (href && isSafeUrl(href)) {
+				// Following a link leaves the viewer open in this tab
+				element.setAttribute('target', '_blank');
+				element.setAttribute('rel', 'noopener noreferrer');
+			} else {
+				element.removeAttribute('href');
+			}
+		}
+	});
+}
+
+/**
+ * Parses caption markup without running it and keeps only the allowed parts
+ */
+export function sanitizeCaption(html: string): DocumentFragment {
+	// Template content is inert: no scripts run and no resources load while parsing
+	const template = document.createElement('template');
+	template.innerHTML = html;
+	cleanNode(template.content);
+	return template.content;
+}
+
+function createPart(className: string, html: string): HTMLElement {
+	const part = document.createElement('span');
+	part.className = className;
+	part.append(sanitizeCaption(html));
+	return part;
+}
+
+/**
+ * Caption of a gallery item, or null when it has none
+ */
+export function getCaptionContent(item: HTMLElement, media: GalleryMedia | null): DocumentFragment | null {
+	const template = item.querySelector<HTMLTemplateElement>('template[data-piv-caption]');
+	if (template) return sanitizeCaption(template.innerHTML);
+
+	const figure = item.parentElement?.tagName === 'FIGURE' ? item.parentElement : null;
+	const figcaption = item.querySelector('figcaption') ?? figure?.querySelector(':scope > figcaption');
+	if (figcaption) return sanitizeCaption(figcaption.innerHTML);
+
+	const read = (name: string) => item.getAttribute(name) ?? media?.getAttribute(name) ?? null;
+	const title = read('data-title');
+	const caption = read('data-caption');
+	const credit = read('data-credit');
+	if (title || caption || credit) {
+		const fragment = document.createDocumentFragment();
+		if (title) fragment.append(createPart('caption-title', title));
+		if (caption) fragment.append(createPart('caption-text', caption));
+		if (credit) fragment.append(createPart('caption-credit', credit));
+		return fragment;
+	}
+
+	const alt = media ? getMediaLabel(media) : '';
+	if (!alt) return null;
+	const fragment = document.createDocumentFragment();
+	fragment.append(alt);
+	return fragment;
+}
+
+/**
+ * Fills the caption element; it is hidden when there is nothing to show
+ */
+export function renderCaption(element: HTMLElement, content: DocumentFragment | null, counter: string | null): void {
+	element.replaceChildren();
+
+	if (content?.hasChildNodes()) {
+		const body = document.createElement('div');
+		body.className = 'caption-body';
+		body.append(content);
+		element.append(body);
+	}
+	if (counter) {
+		const counterElement = document.createElement('span');
+		counterElement.className = 'caption-counter';
+		counterElement.textContent = counter;
+		element.append(counterElement);
+	}
+
+	element.hidden = !element.hasChildNodes();
+}
@@ -0,0 +1,126 @@
+/**
+ * Modal dialog behavior of the viewer overlay, shared by both viewers
+ *
+ * While open, everything outside the overlay is made `inert`, Tab cycles
+ * through whichever overlay controls are focusable at that moment (pagination,
+ * caption links, video and retry buttons included), and changes are announced
+ * through the `.viewer-announcer` live region. Closing returns focus to the
+ * element that opened the viewer.
+ */
+
+const FOCUSABLE = 'a[href], button, input, select, textarea, video[controls], [tabindex]';
+
+export class ModalDialog {
+	private container: HTMLElement;
+	private announcer: HTMLElement | null;
+	private inertElements: HTMLElement[] = [];
+	private trigger: HTMLElement | null = null;
+	// Finds the trigger again when View Transitions replaced the page
+	private triggerId: string | null = null;
+	private isOpen: boolean = false;
+
+	constructor(container: HTMLElement) {
+		this.container = container;
+		this.announcer = container.querySelector<HTMLElement>('.viewer-announcer');
+		// The component markup has these already; custom markup may not
+		if (!container.hasAttribute('role')) container.setAttribute('role', 'dialog');
+		container.setAttribute('aria-modal', 'true');
+	}
+
+	/**
+	 * Remembers the focused element and makes the rest of the page inert
+	 */
+	public open(): void {
+		if (this.isOpen) return;
+		this.isOpen = true;
+
+		const active = document.activeElement;
+		this.trigger = active instanceof HTMLElement && active !== document.body && !this.container.contains(active) ? active : null;
+		this.triggerId = this.trigger?.id || null;
+
+		// Siblings of the overlay and of each of its ancestors: the whole page but the overlay
+		let element: HTMLElement = this.container;
+		while (element.parentElement && element !== document.body) {
+			const parent: HTMLElement = element.parentElement;
+			Array.from(parent.children).forEach((sibling) => {
+				if (sibling === element || !(sibling instanceof HTMLElement) || sibling.inert) return;
+				sibling.inert = true;
+				this.inertElements.push(sibling);
+			});
+			element = parent;
+		}
+	}
+
+	/**
+	 * Restores the page and moves focus back to the trigger, or to 'fallback'
+	 * when the trigger is gone (e.g. the viewer opened from a deep link)
+	 */
+	public close(fallback?: HTMLElement | null): void {
+		if (!this.isOpen) return;
+		const trigger = this.trigger?.isConnected
+			? this.trigger
+			: (this.triggerId ? document.getElementById(this.triggerId) : null);
+		this.release();
+		(trigger ?? fallback)?.focus();
+	}
+
+	/**
+	 * Restores the page without moving focus
+	 */
+	public release(): void {
+		this.inertElements.forEach((element) => (element.inert = false));
+		this.inertElements = [];
+		this.trigger = null;
+		this.triggerId = null;
+		this.isOpen = false;
+	}
+
+	/**
+	 * Overlay controls reachable with Tab right now, in DOM order
+	 */
+	public getFocusable(): HTMLElement[] {
+		return Array.from(this.container.querySelectorAll<HTMLElement>(FOCUSABLE)).filter((element) => {
+			if (element.tabIndex < 0 || element.matches(':disabled')) return false;
+			if (element.closest('[hidden], [inert]')) return false;
+			return element.getClientRects().length > 0;
+		});
+	}
+
+	/**
+	 * Keeps Tab and Shift+Tab inside the overlay
+	 */
+	public trapFocus(event: KeyboardEvent): void {
+		const focusable = this.getFocusable();
+		if (focusable.length === 0) {
+			event.preventDefault();
+			return;
+		}
+
+		const first = focusable[0];
+		const last = focusable[focusable.length - 1];
+		const active = document.activeElement;
+
+		if (!active || !this.container.contains(active)) {
+			event.preventDefault();
+			(event.shiftKey ? last : first).focus();
+		} else if (event.shiftKey && active === first) {
+			event.preventDefault();
+			last.focus();
+		} else if (!event.shiftKey && active === last) {
+			event.preventDefault();
+			first.focus();
+		}
+	}
+
+	/**
+	 * Reads 'message' to screen reader users
+	 */
+	public announce(message: string): void {
+		if (this.announcer) this.announcer.textContent = message;
+	}
+
+	public destroy(): void {
+		this.release();
+		this.announce('');
+	}
+}
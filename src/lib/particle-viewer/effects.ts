@@ -0,0 +1,150 @@
+/**
+ * Transition effect registry for ParticleViewer
+ *
+ * An effect replaces named regions of the particle shaders. Regions are
+ * delimited in GLSL by `@effect:<name>` and `@end` block comments; regions an
+ * effect does not provide keep the default "disintegrate" code.
+ *
+ * Vertex regions: `declarations`, `position` (body of
+ * `vec3 getEffectPosition(float p, vec3 finalPos)`).
+ * Fragment regions: `declarations`, `color` (body of
+ * `vec4 getEffectColor(vec2 uv)`), `shape` (body of
+ * `float getEffectShape(vec2 coord, vec2 rotatedCoord)`).
+ */
+import vertexTemplate from './shaders/particles.vert?raw';
+import fragmentTemplate from './shaders/particles.frag?raw';
+import explodeVertex from './shaders/effects/explode.vert?raw';
+import vortexVertex from './shaders/effects/vortex.vert?raw';
+import sandDriftVertex from './shaders/effects/sand-drift.vert?raw';
+import sandDriftFragment from './shaders/effects/sand-drift.frag?raw';
+import pixelRainVertex from './shaders/effects/pixel-rain.vert?raw';
+import pixelRainFragment from './shaders/effects/pixel-rain.frag?raw';
+import implodeVertex from './shaders/effects/implode.vert?raw';
+
+export interface EffectAttribute {
+	array: Float32Array;
+	itemSize: number;
+}
+
+export interface EffectAttributeContext {
+	/** Number of particles (vertices) */
+	count: number;
+	/** Per-vertex UVs (2 components per particle) */
+	uvs: ArrayLike<number>;
+}
+
+export interface ParticleEffect {
+	/** GLSL with `@effect:` regions for the vertex shader */
+	vertexShader?: string;
+	/** GLSL with `@effect:` regions for the fragment shader */
+	fragmentShader?: string;
+	/** Extra uniforms, created once per material */
+	uniforms?: () => Record<string, { value: unknown }>;
+	/** Extra per-vertex attributes; may also override aCurveOffset or aDelay */
+	attributes?: (context: EffectAttributeContext) => Record<string, EffectAttribute>;
+}
+
+export const DEFAULT_EFFECT = 'disintegrate';
+
+const REGION_PATTERN = /\/\* @effect:([\w-]+) \*\/\n?([\s\S]*?)\/\* @end \*\//g;
+
+const registry = new Map<string, ParticleEffect>();
+
+function parseRegions(source: string): Map<string, string> {
+	const regions = new Map<string, string>();
+	for (const match of source.matchAll(REGION_PATTERN)) {
+		regions.set(match[1], match[2]);
+	}
+	return regions;
+}
+
+function injectRegions(template: string, source?: string): string {
+	const regions = source ? parseRegions(source) : new Map<string, string>();
+	return template.replace(REGION_PATTERN, (_, name: string, fallback: string) => regions.get(name) ?? fallback);
+}
+
+/**
+ * Registers a named transition effect, replacing any effect with the same name
+ */
+export function registerEffect(name: string, effect: ParticleEffect): void {
+	registry.set(name, effect);
+}
+
+/**
+ * Returns the names of all registered effects
+ */
+export function getEffectNames(): string[] {
+	return Array.from(registry.keys());
+}
+
+/**
+ * Looks up an effect by name, falling back to the default one
+ */
+export function resolveEffect(name: string = DEFAULT_EFFECT): ParticleEffect {
+	const effect = registry.get(name);
+	if (effect) return effect;
+
+	console.warn(`Unknown particle effect "${name}", using "${DEFAULT_EFFECT}"`);
+	return registry.get(DEFAULT_EFFECT)!;
+}
+
+/**
+ * Builds the complete vertex and fragment shaders for an effect
+ */
+export function buildEffectShaders(effect: ParticleEffect): { vertexShader: string; fragmentShader: string } {
+	return {
+		vertexShader: injectRegions(vertexTemplate, effect.vertexShader),
+		fragmentShader: injectRegions(fragmentTemplate, effect.fragmentShader),
+	};
+}
+
+// Built-in effects
+registerEffect(DEFAULT_EFFECT, {});
+
+registerEffect('explode', {
+	vertexShader: explodeVertex,
+	uniforms: () => ({ uExplodeStrength: { value: 350.0 } }),
+});
+
+registerEffect('vortex', {
+	vertexShader: vortexVertex,
+	uniforms: () => ({ uVortexTurns: { value: 1.5 } }),
+});
+
+registerEffect('sand-drift', {
+	vertexShader: sandDriftVertex,
+	fragmentShader: sandDriftFragment,
+	uniforms: () => ({ uWind: { value: 260.0 } }),
+});
+
+registerEffect('pixel-rain', {
+	vertexShader: pixelRainVertex,
+	fragmentShader: pixelRainFragment,
+	uniforms: () => ({ uRainHeight: { value: 1500.0 } }),
+	attributes: ({ count, uvs }) => {
+		// Drops in the same column share a speed and start together
+		const columns = new Map<number, number>();
+		const speeds = new Float32Array(count);
+		const delays = new Float32Array(count);
+
+		for (let i = 0; i < count; i++) {
+			const u = uvs[i * 2];
+			let speed = columns.get(u);
+			if (speed === undefined) {
+				speed = Math.random();
+				columns.set(u, speed);
+			}
+			speeds[i] = speed;
+			delays[i] = (1.0 - speed) * 0.3 + Math.random() * 0.02;
+		}
+
+		return {
+			aRainSpeed: { array: speeds, itemSize: 1 },
+			aDelay: { array: delays, itemSize: 1 },
+		};
+	},
+});
+
+registerEffect('implode', {
+	vertexShader: implodeVertex,
+});
@@ -0,0 +1,90 @@
+/**
+ * Typed lifecycle events and state shared by ParticleViewer and SimpleLightbox
+ *
+ * Listeners registered with on() receive the event detail directly. Every event
+ * is also dispatched as a bubbling `piv:<name>` CustomEvent on the gallery
+ * wrapper (`.particle-image-viewer-wrapper`), or on the viewer container when
+ * the viewer is used outside the Astro component.
+ */
+
+export type ViewerAnimation = 'open' | 'close' | 'change';
+
+export interface ViewerEventDetail {
+	index: number;
+	src: string | null;
+}
+
+export interface ViewerState {
+	index: number;
+	total: number;
+	isOpen: boolean;
+	isAnimating: boolean;
+	src: string | null;
+}
+
+export interface ViewerEventMap {
+	open: ViewerEventDetail;
+	opened: ViewerEventDetail;
+	close: ViewerEventDetail;
+	closed: ViewerEventDetail;
+	change: ViewerEventDetail & { previousIndex: number };
+	animationstart: ViewerEventDetail & { animation: ViewerAnimation };
+	animationend: ViewerEventDetail & { animation: ViewerAnimation };
+	error: ViewerEventDetail & { error: unknown };
+}
+
+export type ViewerEventName = keyof ViewerEventMap;
+
+export type ViewerEventListener<K extends ViewerEventName> = (detail: ViewerEventMap[K]) => void;
+
+/**
+ * Public surface common to both viewers, used by the add-ons that drive them
+ */
+export interface ViewerController {
+	on<K extends ViewerEventName>(type: K, listener: ViewerEventListener<K>): () => void;
+	openAt(index: number): Promise<void>;
+	goTo(index: number): Promise<void>;
+	close(): Promise<void>;
+	getState(): ViewerState;
+}
+
+export const EVENT_PREFIX = 'piv:';
+
+export class ViewerEventEmitter {
+	private listeners: Map<ViewerEventName, Set<ViewerEventListener<never>>> = new Map();
+	private target: HTMLElement;
+
+	constructor(container: HTMLElement) {
+		this.target = container.closest<HTMLElement>('.particle-image-viewer-wrapper') ?? container;
+	}
+
+	public on<K extends ViewerEventName>(type: K, listener: ViewerEventListener<K>): () => void {
+		let set = this.listeners.get(type);
+		if (!set) {
+			set = new Set();
+			this.listeners.set(type, set);
+		}
+		set.add(listener);
+		return () => this.off(type, listener);
+	}
+
+	public off<K extends ViewerEventName>(type: K, listener: ViewerEventListener<K>): void {
+		this.listeners.get(type)?.delete(listener);
+	}
+
+	public emit<K extends ViewerEventName>(type: K, detail: ViewerEventMap[K]): void {
+		this.listeners.get(type)?.forEach((listener) => {
+			try {
+				(listener as ViewerEventListener<K>)(detail);
+			} catch (error) {
+				console.error(`Error in "${type}" listener:`, error);
+			}
+		});
+
+		this.target.dispatchEvent(new CustomEvent(`${EVENT_PREFIX}${type}`, { detail, bubbles: true }));
+	}
+
+	public clear(): void {
+		this.listeners.clear();
+	}
+}
@@ -0,0 +1,327 @@
+/**
+ * Swipe gestures of the viewers, shared by both
+ *
+ * Touch, pen and mouse drags move the image with the pointer. Released far
+ * enough, or flicked, a horizontal drag goes to the neighbouring image and a
+ * downward drag closes the viewer, the overlay fading out as it is dragged.
+ * Where there is nothing to go to the image resists and springs back. A
+ * horizontal trackpad swipe (wheel deltaX) navigates the same way.
+ *
+ * Like ZoomController, the controller only tracks an offset; each viewer
+ * decides how to apply it (camera frustum or CSS transform). Pinches and
+ * drags of a zoomed image are left to ZoomController.
+ */
+import type { ViewerController } from './events';
+import { prefersReducedMotion } from './performance';
+
+export interface SwipeOffset {
+	/** Displacement of the image from its resting place, in CSS pixels */
+	x: number;
+	y: number;
+}
+
+export interface SwipeTarget {
+	/** Element receiving pointer and wheel gestures, faded while dismissing */
+	element: HTMLElement;
+	/** Whether a gesture may start, e.g. not while zoomed */
+	canSwipe(): boolean;
+	/** Whether there is an image in 'direction' (1 next, -1 previous) */
+	canNavigate(direction: 1 | -1): boolean;
+	apply(offset: SwipeOffset): void;
+	navigate(direction: 1 | -1): void;
+	dismiss(): void;
+}
+
+type Axis = 'x' | 'y';
+
+interface Sample {
+	time: number;
+	x: number;
+	y: number;
+}
+
+// Movement before the drag picks an axis, in px
+const AXIS_LOCK_DISTANCE = 10;
+// Share of the viewport a slow drag must cover
+const SWIPE_DISTANCE = 0.2;
+const DISMISS_DISTANCE = 0.15;
+// Release speed of a flick, in px/ms, and its minimum travel
+const FLICK_VELOCITY = 0.4;
+const FLICK_DISTANCE = 20;
+// Window of the velocity estimate, in ms
+const VELOCITY_WINDOW = 100;
+// Drag down at which the overlay is fully transparent, as a share of the viewport
+const FADE_DISTANCE = 0.5;
+// Trackpad scroll that navigates, in px
+const WHEEL_DISTANCE = 80;
+// Quiet time ending a trackpad swipe, including its momentum, in ms
+const WHEEL_IDLE = 150;
+const RELEASE_DURATION = 200;
+
+/**
+ * Distance travelled past an end: slower and slower, never beyond 'limit'
+ */
+function rubberBand(distance: number, limit: number): number {
+	const resisted = (1 - 1 / (Math.abs(distance) * 0.55 / limit + 1)) * limit;
+	return Math.sign(distance) * resisted;
+}
+
+export class SwipeGestures {
+	private target: SwipeTarget;
+	private unsubscribe: () => void;
+	private pointerId: number | null = null;
+	private start: Sample | null = null;
+	private samples: Sample[] = [];
+	private axis: Axis | null = null;
+	private offset: SwipeOffset = { x: 0, y: 0 };
+	private dragged: boolean = false;
+	private wheelOffset: number = 0;
+	private wheelCommitted: boolean = false;
+	private wheelTimer: number | null = null;
+	private tweenId: number | null = null;
+
+	private boundPointerDown: (e: PointerEvent) => void;
+	private boundPointerMove: (e: PointerEvent) => void;
+	private boundPointerUp: (e: PointerEvent) => void;
+	private boundWheel: (e: WheelEvent) => void;
+	private boundClickCapture: (e: MouseEvent) => void;
+
+	constructor(viewer: ViewerController, target: SwipeTarget) {
+		this.target = target;
+		const element = target.element;
+		// Drags are handled here, not by the browser's scrolling
+		element.style.touchAction = 'none';
+
+		// A dismissed overlay stays transparent until it is shown again
+		this.unsubscribe = viewer.on('open', () => {
+			element.style.opacity = '';
+		});
+
+		this.boundPointerDown = (e: PointerEvent) => {
+			if ((e.target as Element).closest('button, a, input, video[controls]')) return;
+			if (e.pointerType === 'mouse' && e.button !== 0) return;
+
+			// A second finger starts a pinch
+			if (this.pointerId !== null) {
+				this.cancel();
+				return;
+			}
+			// Drags without a click afterwards (touch) must not swallow the next one
+			this.dragged = false;
+			if (!this.target.canSwipe()) return;
+
+			this.cancelTween();
+			this.pointerId = e.pointerId;
+			this.start = { time: e.timeStamp, x: e.clientX, y: e.clientY };
+			this.samples = [this.start];
+			this.axis = null;
+		};
+		element.addEventListener('pointerdown', this.boundPointerDown);
+
+		this.boundPointerMove = (e: PointerEvent) => {
+			if (e.pointerId !== this.pointerId || !this.start) return;
+			const deltaX = e.clientX - this.start.x;
+			const deltaY = e.clientY - this.start.y;
+
+			if (!this.axis) {
+				if (Math.hypot(deltaX, deltaY) < AXIS_LOCK_DISTANCE) return;
+				this.axis = Math.abs(deltaX) > Math.abs(deltaY) ? 'x' : 'y';
+				this.dragged = true;
+			}
+
+			this.samples.push({ time: e.timeStamp, x: e.clientX, y: e.clientY });
+			this.samples = this.samples.filter((sample) => e.timeStamp - sample.time <= VELOCITY_WINDOW);
+			this.setOffset(this.axis === 'x' ? this.resistX(deltaX) : { x: 0, y: this.resistY(deltaY) });
+		};
+		element.addEventListener('pointermove', this.boundPointerMove);
+
+		this.boundPointerUp = (e: PointerEvent) => {
+			if (e.pointerId !== this.pointerId) return;
+			if (e.type === 'pointercancel') {
+				this.cancel();
+			} else {
+				this.release(e);
+			}
+		};
+		window.addEventListener('pointerup', this.boundPointerUp);
+		window.addEventListener('pointercancel', this.boundPointerUp);
+
+		this.boundWheel = (e: WheelEvent) => {
+			// Vertical scrolling and trackpad pinches belong to ZoomController
+			if (e.ctrlKey || Math.abs(e.deltaX) <= Math.abs(e.deltaY)) return;
+			if (this.pointerId !== null || !this.target.canSwipe()) return;
+			e.preventDefault();
+			this.onWheel(e);
+		};
+		element.addEventListener('wheel', this.boundWheel, { passive: false });
+
+		// A drag must not end up as a click (e.g. click-outside-to-close)
+		this.boundClickCapture = (e: MouseEvent) => {
+			if (this.dragged) {
+				e.stopPropagation();
+				this.dragged = false;
+			}
+		};
+		element.addEventListener('click', this.boundClickCapture, true);
+	}
+
+	/**
+	 * Whether a drag is moving the image
+	 */
+	public isDragging(): boolean {
+		return this.axis !== null;
+	}
+
+	private release(e: PointerEvent): void {
+		const axis = this.axis;
+		const start = this.start!;
+		this.pointerId = null;
+		this.start = null;
+		this.axis = null;
+		if (!axis) return;
+
+		const first = this.samples[0];
+		const elapsed = e.timeStamp - first.time;
+		const velocity = elapsed > 0 ? (axis === 'x' ? e.clientX - first.x : e.clientY - first.y) / elapsed : 0;
+		const delta = axis === 'x' ? e.clientX - start.x : e.clientY - start.y;
+		const viewport = axis === 'x' ? window.innerWidth : window.innerHeight;
+		const flicked = Math.abs(velocity) > FLICK_VELOCITY && Math.sign(velocity) === Math.sign(delta) && Math.abs(delta) > FLICK_DISTANCE;
+
+		if (axis === 'y') {
+			if (delta > 0 && (flicked || delta > viewport * DISMISS_DISTANCE)) {
+				this.dismiss();
+			} else {
+				this.settle();
+			}
+			return;
+		}
+
+		const direction = this.getDirection(delta);
+		if ((flicked || Math.abs(delta) > viewport * SWIPE_DISTANCE) && this.target.canNavigate(direction)) {
+			this.target.navigate(direction);
+		}
+		this.settle();
+	}
+
+	private onWheel(e: WheelEvent): void {
+		// Trackpads report pixels; a line is about 16px
+		const deltaX = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaX * 16 : e.deltaX;
+
+		if (!this.wheelCommitted) {
+			this.cancelTween();
+			this.wheelOffset -= deltaX;
+			this.setOffset(this.resistX(this.wheelOffset));
+
+			const direction = this.getDirection(this.wheelOffset);
+			if (Math.abs(this.wheelOffset) > WHEEL_DISTANCE && this.target.canNavigate(direction)) {
+				// The rest of this swipe, momentum included, is ignored
+				this.wheelCommitted = true;
+				this.target.navigate(direction);
+				this.settle();
+			}
+		}
+
+		if (this.wheelTimer !== null) clearTimeout(this.wheelTimer);
+		this.wheelTimer = window.setTimeout(() => {
+			this.wheelTimer = null;
+			this.wheelOffset = 0;
+			this.wheelCommitted = false;
+			this.settle();
+		}, WHEEL_IDLE);
+	}
+
+	// Forward in reading order is leftwards, or rightwards in right-to-left pages
+	private getDirection(delta: number): 1 | -1 {
+		const rtl = getComputedStyle(this.target.element).direction === 'rtl';
+		return (delta < 0) !== rtl ? 1 : -1;
+	}
+
+	private resistX(deltaX: number): SwipeOffset {
+		const x = this.target.canNavigate(this.getDirection(deltaX)) ? deltaX : rubberBand(deltaX, window.innerWidth);
+		return { x, y: 0 };
+	}
+
+	// Down dismisses; up only stretches
+	private resistY(deltaY: number): number {
+		return deltaY > 0 ? deltaY : rubberBand(deltaY, window.innerHeight);
+	}
+
+	private setOffset(offset: SwipeOffset): void {
+		this.offset = offset;
+		this.target.apply(offset);
+		const fade = Math.min(Math.max(offset.y, 0) / (window.innerHeight * FADE_DISTANCE), 1);
+		this.target.element.style.opacity = fade > 0 ? String(1 - fade) : '';
+	}
+
+	private dismiss(): void {
+		this.tweenTo({ x: this.offset.x, y: window.innerHeight * FADE_DISTANCE }, () => {
+			this.target.dismiss();
+			this.offset = { x: 0, y: 0 };
+			this.target.apply(this.offset);
+		});
+	}
+
+	// Springs back to the resting place
+	private settle(): void {
+		this.tweenTo({ x: 0, y: 0 });
+	}
+
+	private cancel(): void {
+		const moved = this.axis !== null || this.offset.x !== 0 || this.offset.y !== 0;
+		this.pointerId = null;
+		this.start = null;
+		this.axis = null;
+		// A pinch starting before the drag moved anything is ZoomController's alone
+		if (moved) this.settle();
+	}
+
+	private tweenTo(to: SwipeOffset, onComplete?: () => void): void {
+		this.cancelTween();
+		if (prefersReducedMotion()) {
+			this.setOffset(to);
+			onComplete?.();
+			return;
+		}
+
+		const from = { ...this.offset };
+		const startTime = Date.now();
+		const frame = () => {
+			const progress = Math.min((Date.now() - startTime) / RELEASE_DURATION, 1.0);
+			const ease = 1 - Math.pow(1 - progress, 3);
+			this.setOffset({
+				x: from.x + (to.x - from.x) * ease,
+				y: from.y + (to.y - from.y) * ease,
+			});
+
+			if (progress < 1.0) {
+				this.tweenId = requestAnimationFrame(frame);
+			} else {
+				this.tweenId = null;
+				onComplete?.();
+			}
+		};
+		this.tweenId = requestAnimationFrame(frame);
+	}
+
+	private cancelTween(): void {
+		if (this.tweenId !== null) {
+			cancelAnimationFrame(this.tweenId);
+			this.tweenId = null;
+		}
+	}
+
+	public destroy(): void {
+		this.cancelTween();
+		if (this.wheelTimer !== null) clearTimeout(this.wheelTimer);
+		this.unsubscribe();
+		const element = this.target.element;
+		element.removeEventListener('pointerdown', this.boundPointerDown);
+		element.removeEventListener('pointermove', this.boundPointerMove);
+		window.removeEventListener('pointerup', this.boundPointerUp);
+		window.removeEventListener('pointercancel', this.boundPointerUp);
+		element.removeEventListener('wheel', this.boundWheel);
+		element.removeEventListener('click', this.boundClickCapture, true);
+		element.style.opacity = '';
+		element.style.touchAction = '';
+	}
+}
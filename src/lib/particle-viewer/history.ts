@@ -0,0 +1,143 @@
+/**
+ * Deep linking and browser history integration for the viewers
+ *
+ * Opening the viewer pushes a history entry (`#key/3` or `?key=3`, 1-based),
+ * navigating replaces it, and the browser back button closes the viewer.
+ *
+ * Going back and forth between these entries is not a page navigation, so the
+ * popstate events are kept from client-side routers listening after us (e.g.
+ * Astro's ClientRouter, which would otherwise reload the page).
+ */
+import type { ViewerController } from './events';
+
+export type HistoryMode = 'hash' | 'query';
+
+const STATE_KEY = 'pivGallery';
+
+const noop = () => {};
+
+export class ViewerHistory {
+	private viewer: ViewerController;
+	private key: string;
+	private mode: HistoryMode;
+	private pushed: boolean = false;
+	// URL of the current entry, to tell what a popstate changed
+	private href: string = location.href;
+	private unsubscribers: Array<() => void>;
+	private boundPopState: (e: PopStateEvent) => void;
+
+	constructor(viewer: ViewerController, key: string, mode: HistoryMode = 'hash') {
+		this.viewer = viewer;
+		this.key = key;
+		this.mode = mode;
+
+		this.unsubscribers = [
+			viewer.on('open', ({ index }) => this.write(index, 'push')),
+			viewer.on('change', ({ index }) => this.write(index, 'replace')),
+			viewer.on('closed', () => this.clear()),
+		];
+
+		this.boundPopState = (e: PopStateEvent) => {
+			if (this.isViewerEntryChange(new URL(this.href), new URL(location.href))) e.stopImmediatePropagation();
+			this.href = location.href;
+
+			const index = this.readIndex();
+			const state = this.viewer.getState();
+
+			if (index === null) {
+				this.pushed = false;
+				if (state.isOpen) this.viewer.close().catch(noop);
+			} else if (!state.isOpen || state.index !== index) {
+				this.viewer.openAt(index).catch(noop);
+			}
+		};
+		// Captured, so it runs before the router's own listener on window
+		window.addEventListener('popstate', this.boundPopState, true);
+	}
+
+	/**
+	 * Opens the viewer if the current URL links to one of its images
+	 */
+	public restore(): void {
+		const index = this.readIndex();
+		if (index !== null) this.viewer.openAt(index).catch(noop);
+	}
+
+	private readIndex(): number | null {
+		const value = this.readValue(new URL(location.href));
+		if (value === null) return null;
+		const index = Number.parseInt(value, 10) - 1;
+		return index >= 0 && index < this.viewer.getState().total ? index : null;
+	}
+
+	private readValue(url: URL): string | null {
+		if (this.mode === 'query') return url.searchParams.get(this.key);
+
+		const prefix = `#${this.key}/`;
+		let hash: string;
+		try {
+			hash = decodeURIComponent(url.hash);
+		} catch {
+			// Malformed escapes, e.g. a truncated link
+			return null;
+		}
+		return hash.startsWith(prefix) ? hash.slice(prefix.length) : null;
+	}
+
+	// Whether only our part of the URL differs, and one of them links to the viewer
+	private isViewerEntryChange(from: URL, to: URL): boolean {
+		if (this.readValue(from) === null && this.readValue(to) === null) return false;
+		return this.buildUrl(null, from) === this.buildUrl(null, to);
+	}
+
+	private buildUrl(index: number | null, base: URL = new URL(location.href)): string {
+		const url = new URL(base);
+
+		if (this.mode === 'query') {
+			if (index === null) {
+				url.searchParams.delete(this.key);
+			} else {
+				url.searchParams.set(this.key, String(index + 1));
+			}
+		} else {
+			url.hash = index === null ? '' : `${this.key}/${index + 1}`;
+		}
+
+		return url.href;
+	}
+
+	private write(index: number, method: 'push' | 'replace'): void {
+		const href = this.buildUrl(index);
+		// Keep any router state (e.g. Astro View Transitions) alongside our marker
+		const state = { ...history.state, [STATE_KEY]: this.key };
+
+		// Restored or popstate-driven opens already have the right URL
+		if (method === 'push' && href !== location.href) {
+			history.pushState(state, '', href);
+			this.pushed = true;
+		} else {
+			history.replaceState(state, '', href);
+		}
+		this.href = href;
+	}
+
+	private clear(): void {
+		if (this.readIndex() === null) return;
+
+		if (this.pushed && history.state?.[STATE_KEY] === this.key) {
+			this.pushed = false;
+			history.back();
+			return;
+		}
+
+		const { [STATE_KEY]: _, ...state } = history.state ?? {};
+		this.href = this.buildUrl(null);
+		history.replaceState(state, '', this.href);
+	}
+
+	public destroy(): void {
+		window.removeEventListener('popstate', this.boundPopState, true);
+		this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+		this.unsubscribers = [];
+	}
+}
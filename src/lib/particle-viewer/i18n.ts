@@ -0,0 +1,133 @@
+/**
+ * Labels and announcements of the viewer UI
+ *
+ * English and Spanish are built in; other locales are added with
+ * registerLabels(). Templates interpolate `{name}` placeholders, e.g.
+ * formatLabel(labels.imagePosition, { index: 3, total: 7 }) → "Image 3 of 7".
+ */
+
+export interface ViewerLabels {
+	/** Accessible name of the overlay dialog */
+	dialog: string;
+	close: string;
+	previous: string;
+	next: string;
+	/** Pagination buttons; `{index}` is 1-based */
+	goToImage: string;
+	previousImage: string;
+	nextImage: string;
+	/** Visible pagination counter, e.g. "3 / 7" */
+	counter: string;
+	/** Spoken position in the gallery, e.g. "Image 3 of 7" */
+	imagePosition: string;
+	playSlideshow: string;
+	pauseSlideshow: string;
+	playVideo: string;
+	pauseVideo: string;
+	muteVideo: string;
+	unmuteVideo: string;
+	loading: string;
+	loadError: string;
+	retry: string;
+}
+
+const en: ViewerLabels = {
+	dialog: 'Image viewer',
+	close: 'Close',
+	previous: 'Previous',
+	next: 'Next',
+	goToImage: 'Go to image {index}',
+	previousImage: 'Previous image',
+	nextImage: 'Next image',
+	counter: '{index} / {total}',
+	imagePosition: 'Image {index} of {total}',
+	playSlideshow: 'Play slideshow',
+	pauseSlideshow: 'Pause slideshow',
+	playVideo: 'Play video',
+	pauseVideo: 'Pause video',
+	muteVideo: 'Mute',
+	unmuteVideo: 'Unmute',
+	loading: 'Loading image…',
+	loadError: 'The image could not be loaded.',
+	retry: 'Retry',
+};
+
+const es: ViewerLabels = {
+	dialog: 'Visor de imágenes',
+	close: 'Cerrar',
+	previous: 'Anterior',
+	next: 'Siguiente',
+	goToImage: 'Ir a imagen {index}',
+	previousImage: 'Imagen anterior',
+	nextImage: 'Imagen siguiente',
+	counter: '{index} / {total}',
+	imagePosition: 'Imagen {index} de {total}',
+	playSlideshow: 'Reproducir presentación',
+	pauseSlideshow: 'Pausar presentación',
+	playVideo: 'Reproducir vídeo',
+	pauseVideo: 'Pausar vídeo',
+	muteVideo: 'Silenciar',
+	unmuteVideo: 'Activar sonido',
+	loading: 'Cargando imagen…',
+	loadError: 'No se pudo cargar la imagen.',
+	retry: 'Reintentar',
+};
+
+export const DEFAULT_LOCALE = 'en';
+
+const dictionaries: Map<string, ViewerLabels> = new Map([
+	['en', en],
+	['es', es],
+]);
+
+/**
+ * Adds or replaces the labels of a locale ('pt', 'pt-BR'...). Missing keys
+ * fall back to English
+ */
+export function registerLabels(locale: string, labels: Partial<ViewerLabels>): void {
+	dictionaries.set(locale.toLowerCase(), { ...en, ...labels });
+}
+
+/**
+ * Locales with a dictionary
+ */
+export function getLocales(): string[] {
+	return Array.from(dictionaries.keys());
+}
+
+/**
+ * Labels for 'locale' (or the page's `lang` when omitted), trying the full tag
+ * before the language ('es-MX' → 'es'), with 'overrides' applied on top
+ */
+export function resolveLabels(locale?: string, overrides: Partial<ViewerLabels> = {}): ViewerLabels {
+	const requested = (locale || (typeof document !== 'undefined' ? document.documentElement.lang : '') || DEFAULT_LOCALE).toLowerCase();
+	const labels = dictionaries.get(requested) ?? dictionaries.get(requested.split('-')[0]) ?? en;
+	return { ...labels, ...overrides };
+}
+
+/**
+ * Replaces `{name}` placeholders in 'template'; unknown ones are kept
+ */
+export function formatLabel(template: string, values: Record<string, string | number>): string {
+	return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in values ? String(values[name]) : match));
+}
+
+/**
+ * Writes the labels into the static overlay markup shared by both viewers
+ */
+export function applyLabels(container: HTMLElement, labels: ViewerLabels): void {
+	const set = (selector: string, apply: (element: HTMLElement) => void) => {
+		const element = container.querySelector<HTMLElement>(selector);
+		if (element) apply(element);
+	};
+
+	container.ariaLabel = labels.dialog;
+	set('.close-button', (element) => (element.ariaLabel = labels.close));
+	set('.nav-button.prev', (element) => (element.ariaLabel = labels.previous));
+	set('.nav-button.next', (element) => (element.ariaLabel = labels.next));
+	set('.video-play-button', (element) => (element.ariaLabel = labels.playVideo));
+	set('.video-mute-button', (element) => (element.ariaLabel = labels.unmuteVideo));
+	set('.loading-text', (element) => (element.textContent = labels.loading));
+	set('.error-message', (element) => (element.textContent = labels.loadError));
+	set('.retry-button', (element) => (element.textContent = labels.retry));
+}
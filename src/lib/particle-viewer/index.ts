@@ -1,5 +1,18 @@
 export { ParticleViewer } from './ParticleViewer';
-export type { ParticleViewerConfig } from './ParticleViewer';
+export type { ParticleViewerConfig, NavigationMode } from './ParticleViewer';
+export type { InteractionMode } from './pointer-field';
+export type { PaginationStyle } from './pagination';
+export type { QualitySetting, QualityTier } from './quality';
 export { SimpleLightbox } from './SimpleLightbox';
+export type { SimpleLightboxConfig } from './SimpleLightbox';
+export { DEFAULT_KEYMAP } from './keyboard';
+export type { Keymap, ShortcutAction } from './keyboard';
+export { ViewerHistory } from './history';
+export type { HistoryMode } from './history';
+export type { ViewerAnimation, ViewerEventDetail, ViewerEventMap, ViewerEventName, ViewerEventListener, ViewerState, ViewerController } from './events';
+export { registerEffect, getEffectNames, DEFAULT_EFFECT } from './effects';
+export type { ParticleEffect, EffectAttribute, EffectAttributeContext } from './effects';
+export { registerLabels, resolveLabels, formatLabel, getLocales } from './i18n';
+export type { ViewerLabels } from './i18n';
 
 export * from './performance';
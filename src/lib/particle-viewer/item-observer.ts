@@ -0,0 +1,51 @@
+/**
+ * Watches the page for gallery items being added or removed, for galleries
+ * rendered on the client (infinite scroll, filters, search results)
+ *
+ * Only mutations adding nodes that match the item selector (or contain such
+ * nodes) and removing known items count; changes inside the viewer overlay are
+ * ignored so the viewer's own rendering does not trigger refreshes. Bursts of
+ * mutations are coalesced into one callback per frame.
+ */
+
+export class ItemObserver {
+	private observer: MutationObserver;
+	private container: HTMLElement;
+	private selector: string;
+	private getItems: () => ArrayLike<HTMLElement>;
+	private frame: number | null = null;
+
+	constructor(container: HTMLElement, selector: string, getItems: () => ArrayLike<HTMLElement>, onChange: () => void) {
+		this.container = container;
+		this.selector = selector;
+		this.getItems = getItems;
+		this.observer = new MutationObserver((records) => {
+			if (this.frame !== null || !records.some((record) => this.isRelevant(record))) return;
+			this.frame = requestAnimationFrame(() => {
+				this.frame = null;
+				onChange();
+			});
+		});
+		this.observer.observe(document.body, { childList: true, subtree: true });
+	}
+
+	private isRelevant(record: MutationRecord): boolean {
+		if (this.container.contains(record.target)) return false;
+
+		const added = Array.from(record.addedNodes).some((node) => node instanceof Element
+			&& (node.matches(this.selector) || node.querySelector(this.selector) !== null));
+		if (added) return true;
+
+		// Detached nodes no longer match selectors with ancestors, e.g. '#gallery button'
+		const items = Array.from(this.getItems());
+		return Array.from(record.removedNodes).some((node) => items.some((item) => node.contains(item)));
+	}
+
+	public destroy(): void {
+		this.observer.disconnect();
+		if (this.frame !== null) {
+			cancelAnimationFrame(this.frame);
+			this.frame = null;
+		}
+	}
+}
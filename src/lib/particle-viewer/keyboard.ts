@@ -0,0 +1,155 @@
+/**
+ * Configurable keyboard shortcuts of the viewers
+ *
+ * Each action is bound to a list of `KeyboardEvent.key` values; a keymap passed
+ * in the config replaces the keys of the actions it lists, and `false` disables
+ * an action. Single characters match regardless of case and the space bar is
+ * written 'Space'. In a right-to-left document ArrowLeft and ArrowRight swap
+ * roles, so the arrow pointing forward in reading order goes to the next image.
+ *
+ * Shortcuts with Ctrl, Alt or Meta held are left to the browser, and keys are
+ * ignored where the focused control needs them: text fields, a video's own
+ * controls, Space and Enter on a button or link showing its focus ring. Tab is
+ * not configurable: it belongs to the focus trap.
+ */
+
+export type ShortcutAction =
+	| 'close'
+	| 'prev'
+	| 'next'
+	| 'first'
+	| 'last'
+	| 'jump'
+	| 'slideshow'
+	| 'zoomIn'
+	| 'zoomOut'
+	| 'zoomReset'
+	| 'fullscreen';
+
+/**
+ * Keys per action. For 'jump', the n-th key opens the n-th image
+ */
+export type Keymap = Partial<Record<ShortcutAction, string | string[] | false>>;
+
+/**
+ * What each action does in a viewer. Returning false leaves the key to the
+ * page (e.g. Space when the slideshow is disabled)
+ */
+export type ShortcutHandlers = Record<Exclude<ShortcutAction, 'jump'>, (event: KeyboardEvent) => boolean | void> & {
+	jump: (index: number, event: KeyboardEvent) => boolean | void;
+};
+
+export const DEFAULT_KEYMAP: Record<ShortcutAction, string[]> = {
+	close: ['Escape'],
+	prev: ['ArrowLeft', 'PageUp'],
+	next: ['ArrowRight', 'PageDown'],
+	first: ['Home'],
+	last: ['End'],
+	jump: ['1', '2', '3', '4', '5', '6', '7', '8', '9'],
+	slideshow: ['Space'],
+	zoomIn: ['+', '='],
+	zoomOut: ['-', '_'],
+	zoomReset: ['0'],
+	fullscreen: ['f'],
+};
+
+// Zoom factor of one zoomIn / zoomOut step
+export const ZOOM_STEP = 1.5;
+
+const TEXT_INPUT = 'input, textarea, select, [contenteditable]:not([contenteditable="false"])';
+
+function normalizeKey(key: string): string {
+	if (key === ' ') return 'Space';
+	return key.length === 1 ? key.toLowerCase() : key;
+}
+
+interface Binding {
+	action: ShortcutAction;
+	index: number;
+}
+
+export class KeyboardShortcuts {
+	private container: HTMLElement;
+	private handlers: ShortcutHandlers;
+	private bindings: Map<string, Binding> = new Map();
+
+	constructor(container: HTMLElement, handlers: ShortcutHandlers, keymap: Keymap = {}) {
+		this.container = container;
+		this.handlers = handlers;
+
+		(Object.keys(DEFAULT_KEYMAP) as ShortcutAction[]).forEach((action) => {
+			const keys = keymap[action] ?? DEFAULT_KEYMAP[action];
+			if (keys === false) return;
+			(Array.isArray(keys) ? keys : [keys]).forEach((key, index) => {
+				// Keys listed twice keep their first action
+				const normalized = normalizeKey(key);
+				if (!this.bindings.has(normalized)) this.bindings.set(normalized, { action, index });
+			});
+		});
+	}
+
+	/**
+	 * Runs the action bound to the key, if any. Returns whether it was handled
+	 */
+	public handle(event: KeyboardEvent): boolean {
+		if (event.ctrlKey || event.altKey || event.metaKey || event.isComposing) return false;
+		if (this.isNativeKey(event)) return false;
+
+		const binding = this.bindings.get(this.resolveKey(event.key));
+		if (!binding) return false;
+
+		const { action, index } = binding;
+		const handled = action === 'jump' ? this.handlers.jump(index, event) : this.handlers[action](event);
+		if (handled === false) return false;
+
+		event.preventDefault();
+		return true;
+	}
+
+	private resolveKey(key: string): string {
+		return resolveArrowKey(normalizeKey(key), this.container);
+	}
+
+	// Keys the focused element handles itself
+	private isNativeKey(event: KeyboardEvent): boolean {
+		const target = event.target;
+		if (!(target instanceof Element) || event.key === 'Escape') return false;
+		if (target.closest(TEXT_INPUT)) return true;
+		if (target.closest('video[controls]')) return true;
+		// A button focused when the viewer opened shows no focus ring and does not claim Space
+		const control = target.closest('button, a[href], summary');
+		return (event.key === ' ' || event.key === 'Enter') && control !== null && control.matches(':focus-visible');
+	}
+}
+
+/**
+ * Swaps ArrowLeft and ArrowRight when 'element' lays out right to left, so
+ * the ArrowRight returned means forward in reading order
+ */
+export function resolveArrowKey(key: string, element: Element): string {
+	if (key !== 'ArrowLeft' && key !== 'ArrowRight') return key;
+	if (getComputedStyle(element).direction !== 'rtl') return key;
+	return key === 'ArrowLeft' ? 'ArrowRight' : 'ArrowLeft';
+}
+
+/**
+ * Shows 'element' full screen, or leaves full screen if it already is
+ */
+export function toggleFullscreen(element: HTMLElement): boolean {
+	if (!document.fullscreenEnabled) return false;
+	if (document.fullscreenElement === element) {
+		document.exitFullscreen().catch(() => {});
+	} else {
+		element.requestFullscreen().catch(() => {});
+	}
+	return true;
+}
+
+/**
+ * Leaves full screen if 'element' is the one shown, e.g. when the viewer closes
+ */
+export function exitFullscreen(element: HTMLElement): void {
+	if (document.fullscreenElement === element) {
+		document.exitFullscreen().catch(() => {});
+	}
+}
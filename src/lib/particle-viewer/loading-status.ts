@@ -0,0 +1,74 @@
+/**
+ * Loading indicator and error panel shared by both viewers
+ *
+ * Works with the `.loading-indicator` and `.error-panel` elements of the
+ * overlay markup; either may be missing, in which case it is skipped.
+ */
+
+// Fast loads (e.g. cached images) never flash the spinner
+const SHOW_DELAY = 300;
+
+export class LoadingStatus {
+	private indicator: HTMLElement | null;
+	private errorPanel: HTMLElement | null;
+	private retryButton: HTMLButtonElement | null;
+	private showTimer: number | null = null;
+	private retry: (() => void) | null = null;
+	private boundRetryClick: (e: MouseEvent) => void;
+
+	constructor(container: HTMLElement) {
+		this.indicator = container.querySelector<HTMLElement>('.loading-indicator');
+		this.errorPanel = container.querySelector<HTMLElement>('.error-panel');
+		this.retryButton = this.errorPanel?.querySelector<HTMLButtonElement>('.retry-button') ?? null;
+
+		this.boundRetryClick = (e: MouseEvent) => {
+			e.stopPropagation();
+			const retry = this.retry;
+			this.hideError();
+			retry?.();
+		};
+		this.retryButton?.addEventListener('click', this.boundRetryClick);
+	}
+
+	public showLoading(): void {
+		if (!this.indicator || this.showTimer !== null) return;
+		this.showTimer = window.setTimeout(() => {
+			this.showTimer = null;
+			if (this.indicator) this.indicator.hidden = false;
+		}, SHOW_DELAY);
+	}
+
+	public hideLoading(): void {
+		if (this.showTimer !== null) {
+			clearTimeout(this.showTimer);
+			this.showTimer = null;
+		}
+		if (this.indicator) this.indicator.hidden = true;
+	}
+
+	/**
+	 * Shows the error panel; its retry button calls 'retry'
+	 */
+	public showError(retry: () => void): void {
+		this.hideLoading();
+		if (!this.errorPanel) return;
+		this.retry = retry;
+		this.errorPanel.hidden = false;
+		this.retryButton?.focus();
+	}
+
+	public hideError(): void {
+		this.retry = null;
+		if (this.errorPanel) this.errorPanel.hidden = true;
+	}
+
+	public reset(): void {
+		this.hideLoading();
+		this.hideError();
+	}
+
+	public destroy(): void {
+		this.reset();
+		this.retryButton?.removeEventListener('click', this.boundRetryClick);
+	}
+}
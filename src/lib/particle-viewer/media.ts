@@ -0,0 +1,118 @@
+/**
+ * Media of the gallery items, shared by both viewers
+ *
+ * An item shows an `<img>` or a `<video>`. It is a video item when it holds a
+ * `<video>` or when the item or its image has a `data-video-src` attribute;
+ * the image (or the video poster) then serves as thumbnail and fallback.
+ */
+
+export type GalleryMedia = HTMLImageElement | HTMLVideoElement;
+
+export function getItemMedia(item: HTMLElement): GalleryMedia | null {
+	if (item instanceof HTMLImageElement || item instanceof HTMLVideoElement) return item;
+	return item.querySelector<GalleryMedia>('img, video');
+}
+
+/**
+ * Video URL of a video item, or null for images
+ */
+export function getVideoSource(media: GalleryMedia): string | null {
+	const dataSrc = media.closest('[data-video-src]')?.getAttribute('data-video-src');
+	if (dataSrc) return dataSrc;
+	if (!(media instanceof HTMLVideoElement)) return null;
+	return media.getAttribute('src') || media.querySelector('source')?.getAttribute('src') || null;
+}
+
+/**
+ * Still image of an item: the image itself or the video poster
+ */
+export function getStillSource(media: GalleryMedia): string | null {
+	return media instanceof HTMLVideoElement ? media.getAttribute('poster') : media.getAttribute('src');
+}
+
+/**
+ * Full-size source of an item: the video, the high-resolution image
+ * ('srcAttribute') or the thumbnail
+ */
+export function getMediaSource(media: GalleryMedia, srcAttribute: string): string | null {
+	return getVideoSource(media) || media.getAttribute(srcAttribute) || getStillSource(media);
+}
+
+/**
+ * CSS background previewing the item, computed at build time by ParticleImage
+ */
+export function getPlaceholder(media: GalleryMedia): string | null {
+	return media.closest('[data-piv-placeholder]')?.getAttribute('data-piv-placeholder') || null;
+}
+
+/**
+ * Accessible name of the media, used as caption
+ */
+export function getMediaLabel(media: GalleryMedia): string {
+	return media.getAttribute('alt') || media.getAttribute('aria-label') || media.getAttribute('title') || '';
+}
+
+/**
+ * Intrinsic size of a loaded image or video
+ */
+export function getIntrinsicSize(source: GalleryMedia): { width: number; height: number } {
+	return source instanceof HTMLVideoElement
+		? { width: source.videoWidth, height: source.videoHeight }
+		: { width: source.naturalWidth, height: source.naturalHeight };
+}
+
+/**
+ * Creates a video element for playback in the viewer. Muted and inline so
+ * autoplay policies allow starting it without a user gesture
+ */
+export function createVideo(src: string): HTMLVideoElement {
+	const video = document.createElement('video');
+	video.crossOrigin = 'anonymous';
+	video.muted = true;
+	video.loop = true;
+	video.playsInline = true;
+	video.preload = 'auto';
+	video.src = src;
+	return video;
+}
+
+/**
+ * Resolves once the first frame is available. Rejects with an AbortError when
+ * 'signal' aborts, e.g. because the video was unloaded before it was ready
+ */
+export function waitForVideo(video: HTMLVideoElement, signal?: AbortSignal): Promise<HTMLVideoElement> {
+	return new Promise((resolve, reject) => {
+		if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+			resolve(video);
+			return;
+		}
+		if (signal?.aborted) {
+			reject(new DOMException('Video load aborted', 'AbortError'));
+			return;
+		}
+		const onLoaded = () => {
+			cleanup();
+			resolve(video);
+		};
+		const onError = () => {
+			cleanup();
+			reject(new Error(`Failed to load video ${video.src}`));
+		};
+		const onAbort = () => {
+			cleanup();
+			reject(new DOMException('Video load aborted', 'AbortError'));
+		};
+		const cleanup = () => {
+			video.removeEventListener('loadeddata', onLoaded);
+			video.removeEventListener('error', onError);
+			signal?.removeEventListener('abort', onAbort);
+		};
+		video.addEventListener('loadeddata', onLoaded);
+		video.addEventListener('error', onError);
+		signal?.addEventListener('abort', onAbort);
+	});
+}
+
+export function isAbortError(error: unknown): boolean {
+	return error instanceof DOMException && error.name === 'AbortError';
+}
@@ -0,0 +1,243 @@
+/**
+ * Pagination of the viewer overlay, shared by both viewers
+ *
+ * 'dots' renders numbered buttons in a sliding window, 'thumbnails' a
+ * scrollable filmstrip of the gallery thumbnails, 'counter' a "3 / 7" text
+ * and 'none' hides the pagination.
+ */
+import { prefersReducedMotion } from './performance';
+import { formatLabel } from './i18n';
+import { resolveArrowKey } from './keyboard';
+import type { ViewerLabels } from './i18n';
+
+export type PaginationStyle = 'dots' | 'thumbnails' | 'counter' | 'none';
+
+export interface PaginationOptions {
+	style: PaginationStyle;
+	/** Thumbnail URL of each gallery item, in order */
+	thumbnails: string[];
+	onSelect: (index: number) => void;
+	onPrev: () => void;
+	onNext: () => void;
+	labels: ViewerLabels;
+}
+
+const MAX_VISIBLE_DOTS = 5;
+
+export class Pagination {
+	private element: HTMLElement;
+	private options: PaginationOptions;
+	// Dots or thumbnails, one per gallery item
+	private items: HTMLButtonElement[] = [];
+	private strip: HTMLElement | null = null;
+	private counter: HTMLElement | null = null;
+	private startIndex: number = 0;
+	private boundStripKeydown: (e: KeyboardEvent) => void;
+
+	constructor(element: HTMLElement, options: PaginationOptions) {
+		this.element = element;
+		this.options = options;
+		this.boundStripKeydown = (e: KeyboardEvent) => this.handleStripKeydown(e);
+
+		element.innerHTML = '';
+		element.dataset.style = options.style;
+
+		switch (options.style) {
+			case 'dots':
+				this.renderDots();
+				break;
+			case 'thumbnails':
+				this.renderThumbnails();
+				break;
+			case 'counter':
+				this.counter = document.createElement('span');
+				this.counter.className = 'pagination-counter';
+				element.appendChild(this.counter);
+				break;
+			case 'none':
+				element.hidden = true;
+				break;
+		}
+	}
+
+	/**
+	 * Highlights the item at 'index' and brings it into view
+	 */
+	public update(index: number): void {
+		const total = this.options.thumbnails.length;
+
+		this.items.forEach((item, i) => {
+			const isActive = i === index;
+			item.classList.toggle('active', isActive);
+			if (isActive) item.setAttribute('aria-current', 'true');
+			else item.removeAttribute('aria-current');
+			// Roving tabindex: the strip is a single tab stop
+			if (this.strip) item.tabIndex = isActive ? 0 : -1;
+		});
+
+		if (this.counter) {
+			const values = { index: index + 1, total };
+			this.counter.textContent = formatLabel(this.options.labels.counter, values);
+			this.counter.title = formatLabel(this.options.labels.imagePosition, values);
+		}
+
+		if (this.options.style === 'dots' && total > MAX_VISIBLE_DOTS) {
+			const minStart = Math.max(0, index - MAX_VISIBLE_DOTS + 1);
+			const maxStart = Math.min(index, total - MAX_VISIBLE_DOTS);
+
+			if (this.startIndex < minStart) {
+				this.startIndex = minStart;
+			} else if (this.startIndex > maxStart) {
+				this.startIndex = maxStart;
+			}
+			this.updateDotsVisibility();
+		}
+
+		if (this.strip && this.items[index]) this.scrollIntoView(this.items[index]);
+	}
+
+	public destroy(): void {
+		this.strip?.removeEventListener('keydown', this.boundStripKeydown);
+		this.element.innerHTML = '';
+		delete this.element.dataset.style;
+		this.items = [];
+		this.strip = null;
+		this.counter = null;
+	}
+
+	private renderDots(): void {
+		const total = this.options.thumbnails.length;
+		const needsNavigation = total > MAX_VISIBLE_DOTS;
+
+		if (needsNavigation) {
+			this.element.appendChild(this.createNavButton('&#10094;', this.options.labels.previousImage, this.options.onPrev));
+		}
+
+		const dotsContainer = document.createElement('div');
+		dotsContainer.className = 'pagination-dots';
+		this.element.appendChild(dotsContainer);
+
+		for (let index = 0; index < total; index++) {
+			const dot = document.createElement('button');
+			dot.type = 'button';
+			dot.className = 'pagination-dot';
+			dot.innerText = (index + 1).toString();
+			dot.ariaLabel = formatLabel(this.options.labels.goToImage, { index: index + 1 });
+			dot.addEventListener('click', (e) => {
+				e.stopPropagation();
+				this.options.onSelect(index);
+			});
+			dotsContainer.appendChild(dot);
+			this.items.push(dot);
+		}
+
+		if (needsNavigation) {
+			this.element.appendChild(this.createNavButton('&#10095;', this.options.labels.nextImage, this.options.onNext));
+		}
+
+		this.updateDotsVisibility();
+	}
+
+	private createNavButton(html: string, label: string, onClick: () => void): HTMLButtonElement {
+		const button = document.createElement('button');
+		button.type = 'button';
+		button.className = 'pagination-nav';
+		button.innerHTML = html;
+		button.ariaLabel = label;
+		button.addEventListener('click', (e) => {
+			e.stopPropagation();
+			onClick();
+		});
+		return button;
+	}
+
+	private updateDotsVisibility(): void {
+		const total = this.items.length;
+
+		let startIndex = this.startIndex;
+		const endIndex = Math.min(startIndex + MAX_VISIBLE_DOTS, total);
+
+		if (endIndex - startIndex < MAX_VISIBLE_DOTS && total >= MAX_VISIBLE_DOTS) {
+			startIndex = total - MAX_VISIBLE_DOTS;
+		}
+
+		this.items.forEach((dot, i) => {
+			const isVisible = i >= startIndex && i < endIndex;
+			dot.style.display = isVisible ? 'flex' : 'none';
+		});
+	}
+
+	private renderThumbnails(): void {
+		this.strip = document.createElement('div');
+		this.strip.className = 'pagination-thumbnails';
+
+		this.options.thumbnails.forEach((src, index) => {
+			const thumb = document.createElement('button');
+			thumb.type = 'button';
+			thumb.className = 'pagination-thumb';
+			thumb.ariaLabel = formatLabel(this.options.labels.goToImage, { index: index + 1 });
+			thumb.tabIndex = index === 0 ? 0 : -1;
+
+			const image = document.createElement('img');
+			image.src = src;
+			image.alt = '';
+			image.loading = 'lazy';
+			image.decoding = 'async';
+			image.draggable = false;
+			thumb.appendChild(image);
+
+			thumb.addEventListener('click', (e) => {
+				e.stopPropagation();
+				this.options.onSelect(index);
+			});
+			this.strip!.appendChild(thumb);
+			this.items.push(thumb);
+		});
+
+		this.strip.addEventListener('keydown', this.boundStripKeydown);
+		this.element.appendChild(this.strip);
+	}
+
+	// Arrow keys, Home and End move focus along the strip; Enter or Space selects
+	private handleStripKeydown(e: KeyboardEvent): void {
+		const current = this.items.indexOf(e.target as HTMLButtonElement);
+		if (current === -1) return;
+
+		const last = this.items.length - 1;
+		let target: number;
+		// The strip is mirrored in right-to-left pages, like the viewer's own arrows
+		switch (resolveArrowKey(e.key, this.element)) {
+			case 'ArrowLeft':
+				target = Math.max(current - 1, 0);
+				break;
+			case 'ArrowRight':
+				target = Math.min(current + 1, last);
+				break;
+			case 'Home':
+				target = 0;
+				break;
+			case 'End':
+				target = last;
+				break;
+			default:
+				return;
+		}
+
+		// Keeps the viewer from also navigating
+		e.preventDefault();
+		e.stopPropagation();
+		this.items[current].tabIndex = -1;
+		this.items[target].tabIndex = 0;
+		this.items[target].focus({ preventScroll: true });
+		this.scrollIntoView(this.items[target]);
+	}
+
+	// Centers 'thumb' in the strip without scrolling the page
+	private scrollIntoView(thumb: HTMLElement): void {
+		if (!this.strip) return;
+		const stripRect = this.strip.getBoundingClientRect();
+		const thumbRect = thumb.getBoundingClientRect();
+		const left = this.strip.scrollLeft + thumbRect.left - stripRect.left - (stripRect.width - thumbRect.width) / 2;
+		this.strip.scrollTo({ left, behavior: prefersReducedMotion() ? 'auto' : 'smooth' });
+	}
+}
@@ -18,36 +18,36 @@ export function prefersReducedMotion(): boolean {
 }
 
 /**
- * Detects if the device is likely low-performance based on network and hardware heuristics
- * Hardware check requires BOTH low memory AND low cores to avoid false positives
- * from privacy browsers like Brave that falsify individual values
+ * Detects if Data Saver mode is enabled, or the connection is 2G or slow-2g
  */
-export function isLowPerformance(): boolean {
+export function isDataSaving(): boolean {
 	const nav = navigator as NavigatorWithExtensions;
+	if (nav.connection?.saveData) return true;
 
-	// 1. Data Saver mode enabled
-	if (nav.connection?.saveData) {
-		return true;
-	}
-
-	// 2. Slow connection (2G or slow-2g)
 	const effectiveType = nav.connection?.effectiveType;
-	if (effectiveType === '2g' || effectiveType === 'slow-2g') {
-		return true;
-	}
+	return effectiveType === '2g' || effectiveType === 'slow-2g';
+}
 
-	// 3. Low-end hardware: require BOTH low memory AND low cores
-	// This avoids false positives from privacy browsers that falsify only one value
+/**
+ * Detects low-end hardware. Requires BOTH low memory AND low cores
+ * This avoids false positives from privacy browsers that falsify only one value
+ */
+export function isLowEndDevice(): boolean {
+	const nav = navigator as NavigatorWithExtensions;
 	const memory = nav.deviceMemory;
 	const cores = navigator.hardwareConcurrency;
 	const hasLowMemory = memory !== undefined && memory < 4;
 	const hasLowCores = cores !== undefined && cores <= 2;
+	return hasLowMemory && hasLowCores;
+}
 
-	if (hasLowMemory && hasLowCores) {
-		return true;
-	}
-
-	return false;
+/**
+ * Detects if the device is likely low-performance based on network and hardware heuristics
+ * Hardware check requires BOTH low memory AND low cores to avoid false positives
+ * from privacy browsers like Brave that falsify individual values
+ */
+export function isLowPerformance(): boolean {
+	return isDataSaving() || isLowEndDevice();
 }
 
 /**
@@ -83,3 +83,64 @@ export function getFallbackReason(): string | null {
 	if (isLowPerformance()) return 'low-performance-device';
 	return null;
 }
+
+/**
+ * 'auto' picks the viewer from the device and user preferences; 'particles'
+ * and 'simple' force one (particles still need WebGL)
+ */
+export type ViewerMode = 'auto' | 'particles' | 'simple';
+
+/**
+ * Which signals make 'auto' mode fall back to SimpleLightbox
+ */
+export interface FallbackPolicy {
+	/** 'simple' uses the lightbox; 'gentle' keeps the particle viewer with instant, motion-free transitions (default: 'simple') */
+	reducedMotion?: 'simple' | 'gentle';
+	/** Honor Data Saver and 2G connections (default: true) */
+	saveData?: boolean;
+	/** Honor low memory plus few CPU cores (default: true) */
+	lowEndDevice?: boolean;
+}
+
+export type ViewerModeReason =
+	| 'forced'
+	| 'query'
+	| 'prefers-reduced-motion'
+	| 'save-data'
+	| 'low-performance-device'
+	| 'webgl-not-supported'
+	| 'capable';
+
+export interface ViewerModeDecision {
+	mode: 'particles' | 'simple';
+	reason: ViewerModeReason;
+}
+
+// QA override, e.g. ?piv-mode=simple
+export const MODE_QUERY_PARAM = 'piv-mode';
+
+const VIEWER_MODES: ViewerMode[] = ['auto', 'particles', 'simple'];
+
+function getQueryMode(): ViewerMode | null {
+	const value = new URLSearchParams(window.location.search).get(MODE_QUERY_PARAM);
+	return VIEWER_MODES.includes(value as ViewerMode) ? (value as ViewerMode) : null;
+}
+
+/**
+ * Chooses between ParticleViewer and SimpleLightbox, with the reason
+ */
+export function resolveViewerMode(mode: ViewerMode = 'auto', policy: FallbackPolicy = {}): ViewerModeDecision {
+	const queryMode = getQueryMode();
+	const requested = queryMode ?? mode;
+	const forcedReason: ViewerModeReason = queryMode ? 'query' : 'forced';
+
+	if (requested === 'simple') return { mode: 'simple', reason: forcedReason };
+	if (!isWebGLSupported()) return { mode: 'simple', reason: 'webgl-not-supported' };
+	if (requested === 'particles') return { mode: 'particles', reason: forcedReason };
+
+	const { reducedMotion = 'simple', saveData = true, lowEndDevice = true } = policy;
+	if (reducedMotion === 'simple' && prefersReducedMotion()) return { mode: 'simple', reason: 'prefers-reduced-motion' };
+	if (saveData && isDataSaving()) return { mode: 'simple', reason: 'save-data' };
+	if (lowEndDevice && isLowEndDevice()) return { mode: 'simple', reason: 'low-performance-device' };
+	return { mode: 'particles', reason: 'capable' };
+}
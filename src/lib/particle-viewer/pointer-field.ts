@@ -0,0 +1,132 @@
+/**
+ * Pointer interaction for the settled particles in ParticleViewer
+ *
+ * Tracks the cursor or touch point over the overlay and drives the pointer
+ * uniforms of the particle shader. Position and strength follow the pointer
+ * through damped springs, so displaced particles ease back (and slightly
+ * overshoot) when the pointer moves away or leaves.
+ */
+import type { IUniform, OrthographicCamera } from 'three';
+
+export type InteractionMode = 'repel' | 'swirl' | 'magnify';
+
+export interface PointerFieldOptions {
+	/** Radius of influence, in CSS pixels */
+	radius: number;
+	/** Multiplier of the displacement (1 = default) */
+	strength: number;
+	mode: InteractionMode;
+}
+
+// Matches uPointerMode in particles.vert
+const MODES: InteractionMode[] = ['repel', 'swirl', 'magnify'];
+
+const FOLLOW_STIFFNESS = 180;
+const FOLLOW_DAMPING = 22;
+const STRENGTH_STIFFNESS = 90;
+const STRENGTH_DAMPING = 9;
+// Avoids a jump after a dropped frame or a background tab
+const MAX_STEP = 1 / 30;
+
+/**
+ * Uniforms read by particles.vert; all zero leaves the particles untouched
+ */
+export function createPointerUniforms(): Record<string, IUniform> {
+	return {
+		uPointer: { value: [0, 0] },
+		uPointerRadius: { value: 0.0 },
+		uPointerStrength: { value: 0.0 },
+		uPointerMode: { value: 0.0 },
+	};
+}
+
+export class PointerField {
+	private element: HTMLElement;
+	private options: PointerFieldOptions;
+	private isActive: () => boolean;
+	private pointer: { x: number; y: number } | null = null;
+	// Spring state, in world units
+	private position = { x: 0, y: 0, vx: 0, vy: 0 };
+	private strength = { value: 0, velocity: 0 };
+	private lastTime: number = 0;
+
+	private boundPointerMove: (e: PointerEvent) => void;
+	private boundPointerLeave: (e: PointerEvent) => void;
+
+	constructor(element: HTMLElement, options: PointerFieldOptions, isActive: () => boolean) {
+		this.element = element;
+		this.options = options;
+		this.isActive = isActive;
+
+		this.boundPointerMove = (e: PointerEvent) => {
+			this.pointer = { x: e.clientX, y: e.clientY };
+		};
+		// A lifted finger leaves the particles too
+		this.boundPointerLeave = (e: PointerEvent) => {
+			if (e.type === 'pointerup' && e.pointerType === 'mouse') return;
+			this.pointer = null;
+		};
+
+		element.addEventListener('pointermove', this.boundPointerMove);
+		element.addEventListener('pointerdown', this.boundPointerMove);
+		element.addEventListener('pointerleave', this.boundPointerLeave);
+		element.addEventListener('pointerup', this.boundPointerLeave);
+		element.addEventListener('pointercancel', this.boundPointerLeave);
+	}
+
+	/**
+	 * Advances the springs and writes the pointer uniforms; call once per frame
+	 */
+	public update(uniforms: Record<string, IUniform>, camera: OrthographicCamera): void {
+		const now = performance.now();
+		const dt = Math.min((now - this.lastTime) / 1000, MAX_STEP);
+		this.lastTime = now;
+
+		const worldPerPixel = (camera.right - camera.left) / window.innerWidth;
+		const active = this.pointer !== null && this.isActive();
+
+		if (this.pointer) {
+			const targetX = camera.left + this.pointer.x * worldPerPixel;
+			const targetY = camera.top - this.pointer.y * ((camera.top - camera.bottom) / window.innerHeight);
+
+			if (Math.abs(this.strength.value) < 0.01 && Math.abs(this.strength.velocity) < 0.01) {
+				// Nothing is displaced yet: start right under the pointer
+				this.position = { x: targetX, y: targetY, vx: 0, vy: 0 };
+			} else {
+				const p = this.position;
+				p.vx += ((targetX - p.x) * FOLLOW_STIFFNESS - p.vx * FOLLOW_DAMPING) * dt;
+				p.vy += ((targetY - p.y) * FOLLOW_STIFFNESS - p.vy * FOLLOW_DAMPING) * dt;
+				p.x += p.vx * dt;
+				p.y += p.vy * dt;
+			}
+		}
+
+		// Underdamped, so the particles overshoot a little on the way back
+		const s = this.strength;
+		s.velocity += (((active ? 1 : 0) - s.value) * STRENGTH_STIFFNESS - s.velocity * STRENGTH_DAMPING) * dt;
+		s.value += s.velocity * dt;
+
+		const pointer = uniforms.uPointer.value as number[];
+		pointer[0] = this.position.x;
+		pointer[1] = this.position.y;
+		uniforms.uPointerRadius.value = this.options.radius * worldPerPixel;
+		uniforms.uPointerStrength.value = s.value * this.options.strength;
+		uniforms.uPointerMode.value = Math.max(MODES.indexOf(this.options.mode), 0);
+	}
+
+	/**
+	 * Drops any displacement at once (e.g. when a new scene is built)
+	 */
+	public reset(): void {
+		this.pointer = null;
+		this.strength = { value: 0, velocity: 0 };
+	}
+
+	public destroy(): void {
+		this.element.removeEventListener('pointermove', this.boundPointerMove);
+		this.element.removeEventListener('pointerdown', this.boundPointerMove);
+		this.element.removeEventListener('pointerleave', this.boundPointerLeave);
+		this.element.removeEventListener('pointerup', this.boundPointerLeave);
+		this.element.removeEventListener('pointercancel', this.boundPointerLeave);
+	}
+}
@@ -0,0 +1,145 @@
+/**
+ * Adaptive rendering quality for ParticleViewer
+ *
+ * In 'auto' mode the first opening animation is timed and the quality tier is
+ * stepped down when frames are slow, or up when they are smooth. The tier is
+ * persisted in localStorage and applies from the next opening: changing the
+ * particle grid or the shaders mid-animation would be visible.
+ */
+import { isLowPerformance } from './performance';
+
+export type QualityTier = 'low' | 'medium' | 'high';
+export type QualitySetting = 'auto' | QualityTier;
+
+export interface QualityProfile {
+	/** Particle grid size per side */
+	segments: number;
+	maxPixelRatio: number;
+	antialias: boolean;
+	/** Chromatic aberration of the default effect during transitions */
+	rgbSplit: boolean;
+	/** UV distortion of the default effect during transitions */
+	glitch: boolean;
+}
+
+export const QUALITY_PROFILES: Record<QualityTier, QualityProfile> = {
+	low: { segments: 40, maxPixelRatio: 1, antialias: false, rgbSplit: false, glitch: false },
+	medium: { segments: 80, maxPixelRatio: 1.5, antialias: false, rgbSplit: true, glitch: false },
+	high: { segments: 180, maxPixelRatio: 2, antialias: true, rgbSplit: true, glitch: true },
+};
+
+const TIERS: QualityTier[] = ['low', 'medium', 'high'];
+const STORAGE_KEY = 'piv-quality';
+// Median frame times, in ms
+const SLOW_FRAME = 25;
+const SMOOTH_FRAME = 18;
+const MIN_SAMPLES = 20;
+// Longer gaps mean the tab was hidden, not a slow frame
+const MAX_FRAME = 250;
+
+interface StoredQuality {
+	tier: QualityTier;
+	/** Highest tier that has not proved too slow */
+	ceiling: QualityTier;
+}
+
+function isTier(value: unknown): value is QualityTier {
+	return TIERS.includes(value as QualityTier);
+}
+
+function loadQuality(): StoredQuality | null {
+	try {
+		const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+		return isTier(stored?.tier) && isTier(stored?.ceiling) ? stored : null;
+	} catch {
+		// Storage disabled or corrupt
+		return null;
+	}
+}
+
+function saveQuality(quality: StoredQuality): void {
+	try {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(quality));
+	} catch {
+		// Storage disabled or full: the tier lasts for this page only
+	}
+}
+
+// Starting tier before anything has been measured
+function guessTier(): QualityTier {
+	if (isLowPerformance()) return 'low';
+	return window.innerWidth < 768 ? 'medium' : 'high';
+}
+
+export class AdaptiveQuality {
+	private setting: QualitySetting;
+	private current: StoredQuality;
+	private samples: number[] = [];
+	private lastFrame: number | null = null;
+	private measuring: boolean = false;
+	private measured: boolean = false;
+
+	constructor(setting: QualitySetting) {
+		this.setting = setting;
+		const tier = setting === 'auto' ? null : setting;
+		this.current = tier ? { tier, ceiling: tier } : (loadQuality() ?? { tier: guessTier(), ceiling: 'high' });
+	}
+
+	public get tier(): QualityTier {
+		return this.current.tier;
+	}
+
+	public get profile(): QualityProfile {
+		return QUALITY_PROFILES[this.current.tier];
+	}
+
+	/**
+	 * Starts timing frames; only the first animation is measured, in 'auto' mode
+	 */
+	public start(): void {
+		if (this.setting !== 'auto' || this.measured) return;
+		this.samples = [];
+		this.lastFrame = null;
+		this.measuring = true;
+	}
+
+	/**
+	 * Records a rendered frame
+	 */
+	public frame(now: number = performance.now()): void {
+		if (!this.measuring) return;
+		if (this.lastFrame !== null) {
+			const duration = now - this.lastFrame;
+			if (duration < MAX_FRAME) this.samples.push(duration);
+		}
+		this.lastFrame = now;
+	}
+
+	/**
+	 * Stops timing and picks the tier for the next openings. Returns whether it changed
+	 */
+	public finish(): boolean {
+		if (!this.measuring) return false;
+		this.measuring = false;
+		// Too short to judge (e.g. an interrupted animation): try again next time
+		if (this.samples.length < MIN_SAMPLES) return false;
+		this.measured = true;
+
+		const sorted = [...this.samples].sort((a, b) => a - b);
+		const median = sorted[Math.floor(sorted.length / 2)];
+		const index = TIERS.indexOf(this.current.tier);
+		let { tier, ceiling } = this.current;
+
+		if (median > SLOW_FRAME && index > 0) {
+			tier = TIERS[index - 1];
+			ceiling = tier;
+		} else if (median < SMOOTH_FRAME && index < TIERS.indexOf(ceiling)) {
+			tier = TIERS[index + 1];
+		}
+
+		const changed = tier !== this.current.tier;
+		this.current = { tier, ceiling };
+		saveQuality(this.current);
+		return changed;
+	}
+}
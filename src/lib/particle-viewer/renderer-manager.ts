@@ -0,0 +1,119 @@
+/**
+ * Page-level WebGL renderer shared by every ParticleViewer
+ *
+ * Browsers cap the number of live WebGL contexts, and each context keeps its
+ * own copy of shaders and textures. Galleries therefore borrow a single
+ * renderer instead of creating one each: it is created on the first opening,
+ * lent to the gallery being opened and freed once no gallery is left.
+ *
+ * While lent, the renderer's canvas takes the place of the gallery's own
+ * `canvas.webgl-canvas`, copying its attributes so the overlay styles apply;
+ * the original canvas is put back on release.
+ */
+import type { WebGLRenderer } from 'three';
+
+type ThreeModule = typeof import('./three-proxy');
+
+export interface RendererOptions {
+	antialias: boolean;
+}
+
+interface Lease {
+	owner: object;
+	slot: HTMLCanvasElement;
+	onRevoke: () => void;
+}
+
+export class RendererManager {
+	private renderer: WebGLRenderer | null = null;
+	private antialias: boolean = false;
+	private lease: Lease | null = null;
+	private users: Set<object> = new Set();
+	private copiedAttributes: string[] = [];
+
+	/**
+	 * Lends the renderer to 'owner', showing it in place of 'slot'. A gallery
+	 * still holding it is revoked first. Antialiasing is fixed at creation, so
+	 * a different setting recreates the renderer. Throws when WebGL is unavailable
+	 */
+	public acquire(THREE: ThreeModule, owner: object, slot: HTMLCanvasElement, onRevoke: () => void, options: RendererOptions): WebGLRenderer {
+		this.users.add(owner);
+		const reusable = this.renderer !== null && this.antialias === options.antialias;
+		if (this.lease?.owner === owner && reusable) return this.renderer!;
+
+		if (this.lease) {
+			const { owner: holder, onRevoke: revoke } = this.lease;
+			this.release(holder);
+			if (holder !== owner) revoke();
+		}
+
+		if (this.renderer && !reusable) {
+			// Textures keep their images and are uploaded again to the new context
+			this.renderer.dispose();
+			this.renderer.forceContextLoss();
+			this.renderer = null;
+		}
+
+		const renderer = this.renderer ?? this.createRenderer(THREE, options);
+		this.renderer = renderer;
+		this.antialias = options.antialias;
+
+		const canvas = renderer.domElement;
+		Array.from(slot.attributes).forEach(({ name, value }) => {
+			if (name === 'style') return;
+			canvas.setAttribute(name, value);
+			this.copiedAttributes.push(name);
+		});
+		slot.replaceWith(canvas);
+		this.lease = { owner, slot, onRevoke };
+
+		return renderer;
+	}
+
+	/**
+	 * Gives the canvas back to the markup; the renderer stays for the next gallery
+	 */
+	public release(owner: object): void {
+		if (this.lease?.owner !== owner || !this.renderer) return;
+
+		const canvas = this.renderer.domElement;
+		canvas.replaceWith(this.lease.slot);
+		this.copiedAttributes.forEach((name) => canvas.removeAttribute(name));
+		this.copiedAttributes = [];
+		this.lease = null;
+	}
+
+	/**
+	 * Forgets 'owner' (its own textures are freed by the gallery); the WebGL
+	 * context is disposed when no gallery is left
+	 */
+	public unregister(owner: object): void {
+		this.release(owner);
+		this.users.delete(owner);
+		if (this.users.size > 0 || !this.renderer) return;
+
+		this.renderer.dispose();
+		this.renderer.forceContextLoss();
+		this.renderer = null;
+	}
+
+	private createRenderer(THREE: ThreeModule, options: RendererOptions): WebGLRenderer {
+		const renderer = new THREE.WebGLRenderer({
+			alpha: true,
+			antialias: options.antialias,
+			// Removed powerPreference for better Brave compatibility
+			failIfMajorPerformanceCaveat: false
+		});
+
+		// Verify the renderer context is valid
+		const gl = renderer.getContext();
+		if (!gl || gl.isContextLost()) {
+			renderer.dispose();
+			throw new Error('WebGL context lost or invalid');
+		}
+
+		return renderer;
+	}
+}
+
+export const rendererManager = new RendererManager();
@@ -0,0 +1,19 @@
+/* @effect:declarations */
+uniform float uExplodeStrength; // Burst radius in world units
+/* @end */
+
+/* @effect:position */
+    // === TRAVEL: straight line from thumbnail to final position ===
+    float travel = smoothstep(0.0, 1.0, p);
+    travel = travel * travel * (3.0 - 2.0 * travel);
+    vec3 pos = mix(aStartPosition, finalPos, travel);
+
+    // === BURST: radial push from the image center, peaking mid-flight ===
+    vec3 burstDir = normalize(vec3(finalPos.xy + aCurveOffset.xy * 40.0, aCurveOffset.x * 30.0) + vec3(0.001));
+    burstDir.z *= 0.2; // Keep particles in front of the camera at z=100
+    float burst = sin(p * 3.14159);
+    burst *= mix(1.0, 0.4, uMode);
+    pos += burstDir * burst * uExplodeStrength * (1.0 + abs(aCurveOffset.y) * 0.25);
+
+    return pos;
+/* @end */
@@ -0,0 +1,19 @@
+/* @effect:position */
+    // === COLLAPSE (0.0 - 0.45): gather into a tight core at the view center ===
+    vec3 core = vec3(aCurveOffset.xy * 6.0, 0.0);
+    float collapse = smoothstep(0.0, 0.45, p);
+    collapse = collapse * collapse * (3.0 - 2.0 * collapse);
+    vec3 pos = mix(aStartPosition, core, collapse);
+
+    // Spin while compressed
+    float spin = collapse * (1.0 - smoothstep(0.45, 0.7, p)) * (uTime * 2.0 + aCurveOffset.x);
+    float s = sin(spin);
+    float c = cos(spin);
+    pos.xy = mat2(c, -s, s, c) * pos.xy;
+
+    // === EXPAND (0.55 - 1.0): burst out into the final image ===
+    float expand = smoothstep(0.55, 1.0, p);
+    expand = 1.0 - pow(1.0 - expand, 3.0);
+
+    return mix(pos, finalPos, expand);
+/* @end */
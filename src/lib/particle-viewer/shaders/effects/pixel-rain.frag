@@ -0,0 +1,4 @@
+/* @effect:shape */
+    // Crisp, unrotated pixels
+    return max(abs(coord.x), abs(coord.y));
+/* @end */
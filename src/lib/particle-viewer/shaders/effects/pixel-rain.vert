@@ -0,0 +1,17 @@
+/* @effect:declarations */
+uniform float uRainHeight;  // Height above the image where drops start falling
+attribute float aRainSpeed; // Per-column speed (0.0 - 1.0)
+/* @end */
+
+/* @effect:position */
+    // === LIFT (0.0 - 0.35): rise above the final position ===
+    vec3 sky = vec3(finalPos.x, finalPos.y + uRainHeight * (0.6 + aRainSpeed * 0.4), finalPos.z);
+    float lift = smoothstep(0.0, 0.35, p);
+    vec3 pos = mix(aStartPosition, sky, lift);
+
+    // === FALL (0.35 - 1.0): accelerate straight down into place ===
+    float fall = smoothstep(0.35, 1.0, p);
+    fall = fall * fall;
+
+    return mix(pos, finalPos, fall);
+/* @end */
@@ -0,0 +1,11 @@
+/* @effect:color */
+    // No glitch or RGB split: plain grains of the image
+    vec4 color1 = texture2D(uTexture, uv);
+    vec4 color2 = texture2D(uTextureNext, uv);
+    return mix(color1, color2, uTextureMix);
+/* @end */
+
+/* @effect:shape */
+    // Round grains
+    return length(coord);
+/* @end */
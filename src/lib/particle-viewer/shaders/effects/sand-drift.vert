@@ -0,0 +1,19 @@
+/* @effect:declarations */
+uniform float uWind; // Horizontal drift in world units
+/* @end */
+
+/* @effect:position */
+    float travel = smoothstep(0.15, 1.0, p);
+    travel = travel * travel * (3.0 - 2.0 * travel);
+    vec3 pos = mix(aStartPosition, finalPos, travel);
+
+    // === DRIFT: grains blown sideways by gusts, sinking as they go ===
+    float drift = sin(p * 3.14159);
+    drift *= mix(1.0, 0.5, uMode);
+    float gust = 0.6 + 0.4 * sin(uTime * 2.0 + aCurveOffset.y * 3.0);
+    pos.x += drift * uWind * gust * (1.0 + aCurveOffset.x * 0.25);
+    pos.y -= drift * drift * 120.0 * (0.5 + abs(aCurveOffset.y) * 0.25);
+    pos.y += sin(uTime * 4.0 + aCurveOffset.x * 10.0) * drift * 15.0;
+
+    return pos;
+/* @end */
@@ -0,0 +1,23 @@
+/* @effect:declarations */
+uniform float uVortexTurns; // Full turns at the peak of the swirl
+/* @end */
+
+/* @effect:position */
+    float travel = smoothstep(0.0, 1.0, p);
+    travel = travel * travel * (3.0 - 2.0 * travel);
+    vec3 pos = mix(aStartPosition, finalPos, travel);
+
+    // === SWIRL: rotate around the view center, zero at both ends ===
+    float swirl = smoothstep(0.0, 0.3, p) * (1.0 - smoothstep(0.5, 1.0, p));
+    float spread = 0.6 + 0.1 * (aCurveOffset.x + 2.0); // Outer particles lag behind
+    float angle = swirl * uVortexTurns * 6.28318 * spread;
+    float s = sin(angle);
+    float c = cos(angle);
+    pos.xy = mat2(c, -s, s, c) * pos.xy;
+
+    // Pull towards the eye of the vortex mid-flight
+    pos.xy *= 1.0 - swirl * 0.5;
+    pos.z += swirl * aCurveOffset.y * 20.0;
+
+    return pos;
+/* @end */
@@ -11,22 +11,62 @@ varying float vShapeMix;
 varying vec2 vVelocity;
 varying float vRandom;
 
-void main() {
-    vec2 noisyUv = vUv;
+/* @effect:declarations */
+/* @end */
+
+// Particle color sampled from the current/next textures at 'uv'
+vec4 getEffectColor(vec2 uv) {
+/* @effect:color */
+    vec2 noisyUv = uv;
 
+    // USE_GLITCH and USE_RGB_SPLIT depend on the quality tier
+#ifdef USE_GLITCH
     // Glitch effect during dispersion
     if (uDispersion > 0.01) {
-        float noise = sin(vUv.y * 50.0 + uTime * 30.0) * cos(vUv.x * 20.0);
+        float noise = sin(uv.y * 50.0 + uTime * 30.0) * cos(uv.x * 20.0);
         noisyUv.x += noise * 0.05 * uDispersion;
     }
+#endif
 
+#ifdef USE_RGB_SPLIT
     // Chromatic Aberration (RGB Split)
     float rgbShift = uDispersion * 0.02;
 
     vec4 color1 = vec4(texture2D(uTexture, noisyUv + vec2(rgbShift, 0.0)).r, texture2D(uTexture, noisyUv).g, texture2D(uTexture, noisyUv - vec2(rgbShift, 0.0)).b, texture2D(uTexture, noisyUv).a);
     vec4 color2 = vec4(texture2D(uTextureNext, noisyUv + vec2(rgbShift, 0.0)).r, texture2D(uTextureNext, noisyUv).g, texture2D(uTextureNext, noisyUv - vec2(rgbShift, 0.0)).b, texture2D(uTextureNext, noisyUv).a);
+#else
+    vec4 color1 = texture2D(uTexture, noisyUv);
+    vec4 color2 = texture2D(uTextureNext, noisyUv);
+#endif
+
+    return mix(color1, color2, uTextureMix);
+/* @end */
+}
+
+// Distance field of the particle shape while flying (0.5 = edge)
+float getEffectShape(vec2 coord, vec2 rotatedCoord) {
+/* @effect:shape */
+    float distRotated = max(abs(rotatedCoord.x), abs(rotatedCoord.y));
+
+    float distCircle = length(coord);
+
+    // Triangle (equilateral)
+    vec2 p = rotatedCoord;
+    p.y += 0.15;
+    float distTriangle = max(abs(p.x) * 0.866025 + p.y * 0.5, -p.y);
+
+    // Random shape: ~40% squares, ~30% circles, ~30% triangles
+    if (vRandom < -0.2) {
+        return distCircle;
+    } else if (vRandom > 0.2) {
+        return distTriangle;
+    }
+    return distRotated;
+/* @end */
+}
 
-    vec4 textureColor = mix(color1, color2, uTextureMix);
+void main() {
+    vec4 textureColor = getEffectColor(vUv);
     if (textureColor.a < 0.1) discard;
 
     vec2 coord = gl_PointCoord - vec2(0.5);
@@ -50,22 +90,8 @@ void main() {
     vec2 rotatedCoord = mat2(c, -s, s, c) * finalCoord;
 
     float distSquare = max(abs(finalCoord.x), abs(finalCoord.y));
-    float distRotated = max(abs(rotatedCoord.x), abs(rotatedCoord.y));
-
-    float distCircle = length(finalCoord);
 
-    // Triangle (equilateral)
-    vec2 p = rotatedCoord;
-    p.y += 0.15;
-    float distTriangle = max(abs(p.x) * 0.866025 + p.y * 0.5, -p.y);
-
-    // Random shape: ~40% squares, ~30% circles, ~30% triangles
-    float targetShapeDist = distRotated;
-    if (vRandom < -0.2) {
-        targetShapeDist = distCircle;
-    } else if (vRandom > 0.2) {
-        targetShapeDist = distTriangle;
-    }
+    float targetShapeDist = getEffectShape(finalCoord, rotatedCoord);
 
     float dist = mix(distSquare, targetShapeDist, vShapeMix);
 
@@ -4,6 +4,10 @@ uniform float uSize;
 uniform float uMode;     // 0.0 = Open, 1.0 = Close
 uniform float uQuality;  // 0.0 = low, 1.0 = high
 uniform float uDispersion; // 0.0 = none, 1.0 = max dispersion (morphing)
+uniform vec2 uPointer;          // Pointer position in world units
+uniform float uPointerRadius;   // Radius of influence in world units
+uniform float uPointerStrength; // 0.0 = no interaction (springs back past 0.0)
+uniform float uPointerMode;     // 0.0 = repel, 1.0 = swirl, 2.0 = magnify
 
 attribute vec3 aStartPosition; // Initial position (from <img>)
 attribute vec3 aCurveOffset;   // Offset for bezier curves
@@ -22,8 +26,12 @@ vec3 bezierQuadratic(vec3 p0, vec3 p1, vec3 p2, float t) {
     return oneMinusT * oneMinusT * p0 + 2.0 * oneMinusT * t * p1 + t * t * p2;
 }
 
-// Calculate particle position for given progress 'p'
-vec3 getParticlePosition(float p, vec3 finalPos) {
+/* @effect:declarations */
+/* @end */
+
+// Effect trajectory from aStartPosition to 'finalPos' for given progress 'p'
+vec3 getEffectPosition(float p, vec3 finalPos) {
+/* @effect:position */
     // === PHASE 1: DISINTEGRATION (0.0 - 0.4) ===
     float disintegratePhase = smoothstep(0.0, 0.4, p);
     vec3 disperseDir = normalize(aStartPosition + aCurveOffset * 0.5 + vec3(0.001));
@@ -65,6 +73,47 @@ vec3 getParticlePosition(float p, vec3 finalPos) {
     pos.z += zSeparation * activeEffects;
     pos += floatOffset * activeEffects;
 
+    return pos;
+/* @end */
+}
+
+// Pointer influence on 'pos': 1.0 under the pointer, 0.0 outside its radius
+float getPointerFalloff(vec3 pos) {
+    if (uPointerRadius <= 0.0) return 0.0;
+    float falloff = 1.0 - smoothstep(0.0, uPointerRadius, distance(pos.xy, uPointer));
+    return falloff * falloff;
+}
+
+// === POINTER INTERACTION ===
+vec3 getPointerOffset(vec3 pos) {
+    float influence = getPointerFalloff(pos) * uPointerStrength;
+    vec2 delta = pos.xy - uPointer;
+    vec2 offset;
+
+    if (uPointerMode < 0.5) {
+        // Repel: push outwards, strongest under the pointer
+        vec2 dir = length(delta) > 0.001 ? normalize(delta) : vec2(0.0);
+        offset = dir * influence * uPointerRadius * 0.5;
+    } else if (uPointerMode < 1.5) {
+        // Swirl: rotate around the pointer
+        float angle = influence * 2.5;
+        vec2 rotated = vec2(
+            delta.x * cos(angle) - delta.y * sin(angle),
+            delta.x * sin(angle) + delta.y * cos(angle)
+        );
+        offset = rotated - delta;
+    } else {
+        // Magnify: spread outwards like a lens (particles also grow, see main)
+        offset = delta * influence * 0.6;
+    }
+
+    return vec3(offset, influence * 20.0);
+}
+
+// Calculate particle position for given progress 'p'
+vec3 getParticlePosition(float p, vec3 finalPos) {
+    vec3 pos = getEffectPosition(p, finalPos);
+
     // === IMAGE TRANSITION (MORPHING) ===
     vec3 morphDir = vec3(
         sin(aCurveOffset.x * 20.0 + uTime * 5.0),
@@ -74,6 +123,8 @@ vec3 getParticlePosition(float p, vec3 finalPos) {
     pos += morphDir * uDispersion * 400.0;
     pos.z += uDispersion * 80.0; // Limited to avoid crossing camera at z=100
 
+    pos += getPointerOffset(pos);
+
     return pos;
 }
 
@@ -107,5 +158,6 @@ void main() {
     gl_Position = currentClip;
 
     float sizeProgress = smoothstep(0.0, 0.25, localProgress);
-    gl_PointSize = uSize * sizeProgress;
+    float magnify = 1.0 + getPointerFalloff(currentPos) * uPointerStrength * step(1.5, uPointerMode);
+    gl_PointSize = uSize * sizeProgress * magnify;
 }
@@ -0,0 +1,232 @@
+/**
+ * Slideshow (autoplay) for the viewers
+ *
+ * Advances through the public goTo() of the viewer, so every step runs the
+ * viewer's own transition. Playback pauses while the pointer hovers the image
+ * or the controls, while a control has keyboard focus, for a while after any
+ * user interaction, while the page is hidden, and while the viewer suspends it
+ * (e.g. without a WebGL context), resuming afterwards.
+ */
+import type { ViewerController } from './events';
+import type { ViewerLabels } from './i18n';
+
+export interface SlideshowOptions {
+	interval: number;
+	loop: boolean;
+	/** Start playing every time the viewer opens */
+	autostart: boolean;
+	/** Area of the displayed image, for pause-on-hover */
+	getImageRect: () => DOMRect | null;
+	labels: ViewerLabels;
+}
+
+type PauseReason = 'hover' | 'focus' | 'interaction' | 'hidden' | 'suspended';
+
+const noop = () => {};
+
+export class Slideshow {
+	private viewer: ViewerController;
+	private container: HTMLElement;
+	private button: HTMLButtonElement | null;
+	private options: SlideshowOptions;
+	private playing: boolean = false;
+	private advancing: boolean = false;
+	private pauseReasons: Set<PauseReason> = new Set();
+	private timer: number | null = null;
+	private interactionTimer: number | null = null;
+	private unsubscribers: Array<() => void>;
+	// Keyboard shortcut that toggled playback, not a pausing interaction
+	private toggleEvent: Event | null = null;
+
+	private boundButtonClick: (e: MouseEvent) => void;
+	private boundPointerMove: (e: PointerEvent) => void;
+	private boundPointerLeave: () => void;
+	private boundFocusIn: (e: FocusEvent) => void;
+	private boundFocusOut: (e: FocusEvent) => void;
+	private boundInteraction: (e: Event) => void;
+	private boundVisibilityChange: () => void;
+
+	constructor(viewer: ViewerController, container: HTMLElement, options: SlideshowOptions) {
+		this.viewer = viewer;
+		this.container = container;
+		this.options = options;
+		this.button = container.querySelector<HTMLButtonElement>('.slideshow-button');
+
+		if (this.button) {
+			this.button.hidden = false;
+			this.updateButton();
+		}
+
+		this.unsubscribers = [
+			viewer.on('opened', () => {
+				this.pauseReasons.delete('interaction');
+				this.setPlaying(this.options.autostart);
+			}),
+			viewer.on('close', () => this.stop()),
+		];
+
+		this.boundButtonClick = (e: MouseEvent) => {
+			e.stopPropagation();
+			this.setPlaying(!this.playing);
+		};
+		this.button?.addEventListener('click', this.boundButtonClick);
+
+		this.boundPointerMove = (e: PointerEvent) => {
+			if (e.pointerType !== 'mouse') return;
+			const rect = this.options.getImageRect();
+			const overImage = rect !== null
+				&& e.clientX >= rect.left && e.clientX <= rect.right
+				&& e.clientY >= rect.top && e.clientY <= rect.bottom;
+			const overControl = (e.target as Element).closest('button, .caption, .pagination') !== null
+				&& e.target !== this.button;
+			this.setPaused('hover', overImage || overControl);
+		};
+		this.container.addEventListener('pointermove', this.boundPointerMove);
+
+		this.boundPointerLeave = () => this.setPaused('hover', false);
+		this.container.addEventListener('pointerleave', this.boundPointerLeave);
+
+		this.boundFocusIn = (e: FocusEvent) => {
+			const target = e.target as HTMLElement;
+			this.setPaused('focus', target !== this.button && target.matches(':focus-visible'));
+		};
+		this.boundFocusOut = (e: FocusEvent) => {
+			if (!this.container.contains(e.relatedTarget as Node | null)) this.setPaused('focus', false);
+		};
+		this.container.addEventListener('focusin', this.boundFocusIn);
+		this.container.addEventListener('focusout', this.boundFocusOut);
+
+		this.boundInteraction = (e: Event) => {
+			if (!this.viewer.getState().isOpen) return;
+			if (this.button && (e.target === this.button || e.target === this.button.firstChild)) return;
+			if (e === this.toggleEvent) return;
+			this.onInteraction();
+		};
+		this.container.addEventListener('pointerdown', this.boundInteraction);
+		this.container.addEventListener('wheel', this.boundInteraction, { passive: true });
+		document.addEventListener('keydown', this.boundInteraction);
+
+		this.boundVisibilityChange = () => this.setPaused('hidden', document.visibilityState === 'hidden');
+		document.addEventListener('visibilitychange', this.boundVisibilityChange);
+	}
+
+	public isPlaying(): boolean {
+		return this.playing;
+	}
+
+	public play(): void {
+		this.setPlaying(true);
+	}
+
+	public pause(): void {
+		this.setPlaying(false);
+	}
+
+	/**
+	 * Holds playback without changing the play state the user chose
+	 */
+	public setSuspended(suspended: boolean): void {
+		this.setPaused('suspended', suspended);
+	}
+
+	/**
+	 * Plays or pauses; 'trigger' is the key press that asked for it
+	 */
+	public toggle(trigger?: Event): void {
+		this.toggleEvent = trigger ?? null;
+		this.setPlaying(!this.playing);
+	}
+
+	private setPlaying(playing: boolean): void {
+		this.playing = playing;
+		this.updateButton();
+		this.schedule();
+	}
+
+	private setPaused(reason: PauseReason, paused: boolean): void {
+		if (paused === this.pauseReasons.has(reason)) return;
+		if (paused) {
+			this.pauseReasons.add(reason);
+		} else {
+			this.pauseReasons.delete(reason);
+		}
+		this.schedule();
+	}
+
+	private onInteraction(): void {
+		this.setPaused('interaction', true);
+		if (this.interactionTimer !== null) clearTimeout(this.interactionTimer);
+		this.interactionTimer = window.setTimeout(() => {
+			this.interactionTimer = null;
+			this.setPaused('interaction', false);
+		}, this.options.interval);
+	}
+
+	// Restarts the countdown to the next image, if playback is allowed
+	private schedule(): void {
+		this.clearTimer();
+		if (!this.playing || this.advancing || this.pauseReasons.size > 0) return;
+		if (!this.viewer.getState().isOpen) return;
+
+		this.timer = window.setTimeout(() => {
+			this.timer = null;
+			this.advance();
+		}, this.options.interval);
+	}
+
+	private async advance(): Promise<void> {
+		const { index, total } = this.viewer.getState();
+		if (total <= 1) return;
+
+		if (!this.options.loop && index >= total - 1) {
+			this.setPlaying(false);
+			return;
+		}
+
+		this.advancing = true;
+		await this.viewer.goTo((index + 1) % total).catch(noop);
+		this.advancing = false;
+		this.schedule();
+	}
+
+	private stop(): void {
+		this.playing = false;
+		this.clearTimer();
+		if (this.interactionTimer !== null) {
+			clearTimeout(this.interactionTimer);
+			this.interactionTimer = null;
+		}
+		this.pauseReasons.delete('interaction');
+		this.updateButton();
+	}
+
+	private clearTimer(): void {
+		if (this.timer !== null) {
+			clearTimeout(this.timer);
+			this.timer = null;
+		}
+	}
+
+	private updateButton(): void {
+		if (!this.button) return;
+		this.button.innerHTML = this.playing ? '&#10074;&#10074;' : '&#9654;';
+		this.button.ariaLabel = this.playing ? this.options.labels.pauseSlideshow : this.options.labels.playSlideshow;
+		this.button.setAttribute('aria-pressed', String(this.playing));
+	}
+
+	public destroy(): void {
+		this.stop();
+		this.button?.removeEventListener('click', this.boundButtonClick);
+		if (this.button) this.button.hidden = true;
+		this.container.removeEventListener('pointermove', this.boundPointerMove);
+		this.container.removeEventListener('pointerleave', this.boundPointerLeave);
+		this.container.removeEventListener('focusin', this.boundFocusIn);
+		this.container.removeEventListener('focusout', this.boundFocusOut);
+		this.container.removeEventListener('pointerdown', this.boundInteraction);
+		this.container.removeEventListener('wheel', this.boundInteraction);
+		document.removeEventListener('keydown', this.boundInteraction);
+		document.removeEventListener('visibilitychange', this.boundVisibilityChange);
+		this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+		this.unsubscribers = [];
+	}
+}
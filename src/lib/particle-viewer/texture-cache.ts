@@ -0,0 +1,107 @@
+/**
+ * LRU cache of decoded textures for ParticleViewer
+ *
+ * Textures stay alive after the viewer closes so reopening or navigating back
+ * to an image needs no download or decode. When the estimated GPU memory
+ * exceeds the budget, the least recently used textures that are not in use
+ * are disposed.
+ */
+import type { Texture } from 'three';
+
+interface CacheEntry {
+	promise: Promise<Texture>;
+	texture: Texture | null;
+	bytes: number;
+}
+
+export interface TextureCacheOptions {
+	/** Memory budget in bytes; 0 keeps only the textures in use */
+	budget: number;
+	load: (src: string) => Promise<Texture>;
+	/** Textures currently on screen are never evicted */
+	isInUse: (texture: Texture) => boolean;
+}
+
+// RGBA8 plus the mipmap chain
+function estimateBytes(texture: Texture): number {
+	const image = texture.image as {
+		naturalWidth?: number;
+		videoWidth?: number;
+		width?: number;
+		naturalHeight?: number;
+		videoHeight?: number;
+		height?: number;
+	};
+	const width = image.naturalWidth ?? image.videoWidth ?? image.width ?? 0;
+	const height = image.naturalHeight ?? image.videoHeight ?? image.height ?? 0;
+	return Math.ceil(width * height * 4 * 4 / 3);
+}
+
+export class TextureCache {
+	private entries: Map<string, CacheEntry> = new Map();
+	private options: TextureCacheOptions;
+
+	constructor(options: TextureCacheOptions) {
+		this.options = options;
+	}
+
+	/**
+	 * Returns the cached texture for 'src', loading it once if needed with
+	 * 'fetch' (by default the loader given in the options)
+	 */
+	public load(src: string, fetch: (src: string) => Promise<Texture> = this.options.load): Promise<Texture> {
+		const cached = this.entries.get(src);
+		if (cached) {
+			// Re-insert to mark as most recently used
+			this.entries.delete(src);
+			this.entries.set(src, cached);
+			return cached.promise;
+		}
+
+		const entry: CacheEntry = { promise: fetch(src), texture: null, bytes: 0 };
+		entry.promise = entry.promise.then(
+			(texture) => {
+				entry.texture = texture;
+				entry.bytes = estimateBytes(texture);
+				this.trim(texture);
+				return texture;
+			},
+			(error) => {
+				// Failed loads are not cached so they can be retried
+				if (this.entries.get(src) === entry) this.entries.delete(src);
+				throw error;
+			}
+		);
+		this.entries.set(src, entry);
+		return entry.promise;
+	}
+
+	public has(src: string): boolean {
+		return this.entries.get(src)?.texture != null;
+	}
+
+	/**
+	 * Disposes least recently used textures until the cache fits its budget,
+	 * sparing 'keep' (a texture about to be used)
+	 */
+	public trim(keep?: Texture): void {
+		let total = 0;
+		this.entries.forEach((entry) => {
+			total += entry.bytes;
+		});
+
+		for (const [src, entry] of this.entries) {
+			if (total <= this.options.budget) break;
+			if (!entry.texture || entry.texture === keep || this.options.isInUse(entry.texture)) continue;
+
+			entry.texture.dispose();
+			this.entries.delete(src);
+			total -= entry.bytes;
+		}
+	}
+
+	public clear(): void {
+		this.entries.forEach((entry) => entry.texture?.dispose());
+		this.entries.clear();
+	}
+}
@@ -4,6 +4,7 @@ export {
 	OrthographicCamera,
 	WebGLRenderer,
 	TextureLoader,
+	VideoTexture,
 	SRGBColorSpace,
 	PlaneGeometry,
 	BufferAttribute,
@@ -0,0 +1,115 @@
+/**
+ * Play/pause and mute buttons for the video shown by ParticleViewer
+ *
+ * Works with the `.video-play-button` and `.video-mute-button` elements of the
+ * overlay markup. Playback starts muted, which autoplay policies allow without
+ * a user gesture; if the browser still refuses (e.g. power saving modes), the
+ * video stays on its first frame with the play button ready.
+ */
+import type { ViewerLabels } from './i18n';
+
+const noop = () => {};
+
+export class VideoControls {
+	private video: HTMLVideoElement | null = null;
+	private playButton: HTMLButtonElement | null;
+	private muteButton: HTMLButtonElement | null;
+	private labels: ViewerLabels;
+	// Unmuting carries over to the next video
+	private muted: boolean = true;
+
+	private boundPlayClick: (e: MouseEvent) => void;
+	private boundMuteClick: (e: MouseEvent) => void;
+	private boundUpdate: () => void;
+
+	constructor(container: HTMLElement, labels: ViewerLabels) {
+		this.labels = labels;
+		this.playButton = container.querySelector<HTMLButtonElement>('.video-play-button');
+		this.muteButton = container.querySelector<HTMLButtonElement>('.video-mute-button');
+
+		this.boundPlayClick = (e: MouseEvent) => {
+			e.stopPropagation();
+			this.togglePlay();
+		};
+		this.boundMuteClick = (e: MouseEvent) => {
+			e.stopPropagation();
+			this.toggleMute();
+		};
+		this.boundUpdate = () => this.updateButtons();
+
+		this.playButton?.addEventListener('click', this.boundPlayClick);
+		this.muteButton?.addEventListener('click', this.boundMuteClick);
+	}
+
+	/**
+	 * Shows the controls for 'video' and starts playing it
+	 */
+	public attach(video: HTMLVideoElement): void {
+		if (this.video === video) return;
+		this.detach();
+
+		this.video = video;
+		video.addEventListener('play', this.boundUpdate);
+		video.addEventListener('pause', this.boundUpdate);
+		video.addEventListener('volumechange', this.boundUpdate);
+		if (this.playButton) this.playButton.hidden = false;
+		if (this.muteButton) this.muteButton.hidden = false;
+
+		video.muted = this.muted;
+		video.play().catch(() => {
+			// Sound needs a user gesture on this page: retry muted
+			if (this.video !== video || video.muted) return;
+			video.muted = true;
+			video.play().catch(noop);
+		});
+		this.updateButtons();
+	}
+
+	/**
+	 * Pauses the current video and hides the controls
+	 */
+	public detach(): void {
+		const video = this.video;
+		if (this.playButton) this.playButton.hidden = true;
+		if (this.muteButton) this.muteButton.hidden = true;
+		if (!video) return;
+
+		this.video = null;
+		video.pause();
+		video.removeEventListener('play', this.boundUpdate);
+		video.removeEventListener('pause', this.boundUpdate);
+		video.removeEventListener('volumechange', this.boundUpdate);
+	}
+
+	public togglePlay(): void {
+		if (!this.video) return;
+		if (this.video.paused) this.video.play().catch(noop);
+		else this.video.pause();
+	}
+
+	public toggleMute(): void {
+		if (!this.video) return;
+		this.video.muted = !this.video.muted;
+		this.muted = this.video.muted;
+	}
+
+	private updateButtons(): void {
+		const video = this.video;
+		if (!video) return;
+
+		if (this.playButton) {
+			this.playButton.innerHTML = video.paused ? '&#9654;' : '&#10074;&#10074;';
+			this.playButton.ariaLabel = video.paused ? this.labels.playVideo : this.labels.pauseVideo;
+		}
+		if (this.muteButton) {
+			this.muteButton.innerHTML = video.muted ? '&#128263;' : '&#128266;';
+			this.muteButton.ariaLabel = video.muted ? this.labels.unmuteVideo : this.labels.muteVideo;
+		}
+	}
+
+	public destroy(): void {
+		this.detach();
+		this.playButton?.removeEventListener('click', this.boundPlayClick);
+		this.muteButton?.removeEventListener('click', this.boundMuteClick);
+	}
+}
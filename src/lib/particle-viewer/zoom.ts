@@ -0,0 +1,292 @@
+/**
+ * Zoom and pan gestures for the settled image, shared by both viewers
+ *
+ * The controller only tracks a scale and a screen-space offset of the image
+ * center from the viewport center; each viewer decides how to apply it
+ * (camera frustum in ParticleViewer, CSS transform in SimpleLightbox).
+ */
+import { prefersReducedMotion } from './performance';
+
+export interface ZoomState {
+	scale: number;
+	/** Offset of the image center from the viewport center, in CSS pixels */
+	x: number;
+	y: number;
+}
+
+export interface ZoomTarget {
+	/** Element receiving wheel, pointer and double-click gestures */
+	element: HTMLElement;
+	/** Displayed image size at scale 1, in CSS pixels */
+	getContentSize(): { width: number; height: number };
+	/** Whether the image is settled and can be zoomed */
+	canZoom(): boolean;
+	apply(state: ZoomState): void;
+}
+
+export interface ZoomOptions {
+	maxZoom: number;
+	doubleTapZoom: number;
+}
+
+const DOUBLE_TAP_DELAY = 300;
+const DOUBLE_TAP_DISTANCE = 30;
+const DRAG_THRESHOLD = 5;
+const ZOOM_DURATION = 200;
+
+export class ZoomController {
+	private target: ZoomTarget;
+	private options: ZoomOptions;
+	private state: ZoomState = { scale: 1, x: 0, y: 0 };
+	private pointers: Map<number, { x: number; y: number }> = new Map();
+	private pinchDistance: number = 0;
+	private pinched: boolean = false;
+	private dragged: boolean = false;
+	private dragStart: { x: number; y: number } | null = null;
+	private lastTap: { time: number; x: number; y: number } | null = null;
+	private tweenId: number | null = null;
+
+	private boundWheel: (e: WheelEvent) => void;
+	private boundPointerDown: (e: PointerEvent) => void;
+	private boundPointerMove: (e: PointerEvent) => void;
+	private boundPointerUp: (e: PointerEvent) => void;
+	private boundDoubleClick: (e: MouseEvent) => void;
+	private boundClickCapture: (e: MouseEvent) => void;
+
+	constructor(target: ZoomTarget, options: ZoomOptions) {
+		this.target = target;
+		this.options = options;
+		const element = target.element;
+		// Pinch and pan are handled here, not by the browser's page zoom
+		element.style.touchAction = 'none';
+
+		this.boundWheel = (e: WheelEvent) => {
+			if (!this.target.canZoom()) return;
+			// Horizontal trackpad swipes navigate (see SwipeGestures) until zoomed in
+			if (!e.ctrlKey && !this.isZoomed() && Math.abs(e.deltaX) > Math.abs(e.deltaY)) return;
+			e.preventDefault();
+			// Trackpad pinch arrives as a wheel event with ctrlKey set
+			const sensitivity = e.ctrlKey ? 0.01 : 0.0015;
+			this.zoomTo(this.state.scale * Math.exp(-e.deltaY * sensitivity), e.clientX, e.clientY);
+		};
+		element.addEventListener('wheel', this.boundWheel, { passive: false });
+
+		this.boundPointerDown = (e: PointerEvent) => {
+			if ((e.target as Element).closest('button, a')) return;
+			if (e.pointerType === 'mouse' && e.button !== 0) return;
+
+			if (this.pointers.size === 0) {
+				this.pinched = false;
+				this.dragged = false;
+			}
+			this.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+			this.dragStart = { x: e.clientX, y: e.clientY };
+
+			if (this.pointers.size === 2) {
+				this.pinchDistance = this.getPinchDistance();
+			}
+		};
+		element.addEventListener('pointerdown', this.boundPointerDown);
+
+		this.boundPointerMove = (e: PointerEvent) => {
+			const previous = this.pointers.get(e.pointerId);
+			if (!previous) return;
+			this.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+			if (this.pointers.size === 2 && this.target.canZoom()) {
+				const distance = this.getPinchDistance();
+				const [a, b] = Array.from(this.pointers.values());
+				if (this.pinchDistance > 0) {
+					this.zoomTo(this.state.scale * (distance / this.pinchDistance), (a.x + b.x) / 2, (a.y + b.y) / 2);
+				}
+				this.pinchDistance = distance;
+				this.pinched = true;
+				return;
+			}
+
+			if (this.pointers.size === 1 && this.isZoomed() && this.dragStart) {
+				const moved = Math.hypot(e.clientX - this.dragStart.x, e.clientY - this.dragStart.y);
+				if (moved > DRAG_THRESHOLD) this.dragged = true;
+				if (this.dragged) {
+					this.setState({
+						scale: this.state.scale,
+						x: this.state.x + (e.clientX - previous.x),
+						y: this.state.y + (e.clientY - previous.y),
+					});
+					element.style.cursor = 'grabbing';
+				}
+			}
+		};
+		element.addEventListener('pointermove', this.boundPointerMove);
+
+		this.boundPointerUp = (e: PointerEvent) => {
+			if (!this.pointers.delete(e.pointerId)) return;
+			if (this.pointers.size === 1) this.pinchDistance = 0;
+			if (this.pointers.size > 0) return;
+
+			this.updateCursor();
+
+			// Double-tap toggles zoom on touch; mice use dblclick
+			if (e.pointerType === 'touch' && !this.dragged && !this.pinched) {
+				const now = Date.now();
+				const lastTap = this.lastTap;
+				if (lastTap && now - lastTap.time < DOUBLE_TAP_DELAY
+					&& Math.hypot(e.clientX - lastTap.x, e.clientY - lastTap.y) < DOUBLE_TAP_DISTANCE) {
+					this.lastTap = null;
+					this.toggle(e.clientX, e.clientY);
+				} else {
+					this.lastTap = { time: now, x: e.clientX, y: e.clientY };
+				}
+			}
+		};
+		window.addEventListener('pointerup', this.boundPointerUp);
+		window.addEventListener('pointercancel', this.boundPointerUp);
+
+		this.boundDoubleClick = (e: MouseEvent) => {
+			if ((e.target as Element).closest('button, a')) return;
+			this.toggle(e.clientX, e.clientY);
+		};
+		element.addEventListener('dblclick', this.boundDoubleClick);
+
+		// A pan must not end up as a click (e.g. click-outside-to-close)
+		this.boundClickCapture = (e: MouseEvent) => {
+			if (this.dragged || this.pinched) {
+				e.stopPropagation();
+				this.dragged = false;
+			}
+		};
+		element.addEventListener('click', this.boundClickCapture, true);
+	}
+
+	public getState(): ZoomState {
+		return { ...this.state };
+	}
+
+	public isZoomed(): boolean {
+		return this.state.scale > 1.001;
+	}
+
+	/**
+	 * Whether the current touch sequence was a zoom or pan rather than a swipe
+	 */
+	public suppressesSwipe(): boolean {
+		return this.isZoomed() || this.pinched;
+	}
+
+	/**
+	 * Zooms to 'scale' keeping the point under (clientX, clientY) in place
+	 */
+	public zoomTo(scale: number, clientX: number = window.innerWidth / 2, clientY: number = window.innerHeight / 2, animate: boolean = false): void {
+		if (!this.target.canZoom()) return;
+
+		const nextScale = Math.min(Math.max(scale, 1), this.options.maxZoom);
+		const ratio = nextScale / this.state.scale;
+		const originX = clientX - window.innerWidth / 2;
+		const originY = clientY - window.innerHeight / 2;
+		const next: ZoomState = {
+			scale: nextScale,
+			x: originX - (originX - this.state.x) * ratio,
+			y: originY - (originY - this.state.y) * ratio,
+		};
+
+		if (animate && !prefersReducedMotion()) {
+			this.tweenTo(next);
+		} else {
+			this.setState(next);
+		}
+	}
+
+	/**
+	 * Multiplies the scale by 'factor' around the viewport center
+	 */
+	public zoomBy(factor: number): void {
+		this.zoomTo(this.state.scale * factor, undefined, undefined, true);
+	}
+
+	public toggle(clientX?: number, clientY?: number): void {
+		this.zoomTo(this.isZoomed() ? 1 : this.options.doubleTapZoom, clientX, clientY, true);
+	}
+
+	public reset(): void {
+		this.cancelTween();
+		this.pointers.clear();
+		this.state = { scale: 1, x: 0, y: 0 };
+		this.target.apply(this.state);
+		this.updateCursor();
+	}
+
+	private setState(next: ZoomState): void {
+		this.cancelTween();
+		this.state = this.clamp(next);
+		this.target.apply(this.state);
+		this.updateCursor();
+	}
+
+	private tweenTo(next: ZoomState): void {
+		this.cancelTween();
+		const from = { ...this.state };
+		const to = this.clamp(next);
+		const startTime = Date.now();
+
+		const frame = () => {
+			const progress = Math.min((Date.now() - startTime) / ZOOM_DURATION, 1.0);
+			const ease = 1 - Math.pow(1 - progress, 3);
+			this.state = {
+				scale: from.scale + (to.scale - from.scale) * ease,
+				x: from.x + (to.x - from.x) * ease,
+				y: from.y + (to.y - from.y) * ease,
+			};
+			this.target.apply(this.state);
+
+			if (progress < 1.0) {
+				this.tweenId = requestAnimationFrame(frame);
+			} else {
+				this.tweenId = null;
+				this.updateCursor();
+			}
+		};
+		this.tweenId = requestAnimationFrame(frame);
+	}
+
+	private cancelTween(): void {
+		if (this.tweenId !== null) {
+			cancelAnimationFrame(this.tweenId);
+			this.tweenId = null;
+		}
+	}
+
+	// Keep the image covering the viewport edges it overflows, centered otherwise
+	private clamp(state: ZoomState): ZoomState {
+		const { width, height } = this.target.getContentSize();
+		const maxX = Math.max(0, (width * state.scale - window.innerWidth) / 2);
+		const maxY = Math.max(0, (height * state.scale - window.innerHeight) / 2);
+		return {
+			scale: state.scale,
+			x: Math.min(Math.max(state.x, -maxX), maxX),
+			y: Math.min(Math.max(state.y, -maxY), maxY),
+		};
+	}
+
+	private getPinchDistance(): number {
+		const [a, b] = Array.from(this.pointers.values());
+		return Math.hypot(a.x - b.x, a.y - b.y);
+	}
+
+	private updateCursor(): void {
+		this.target.element.style.cursor = this.isZoomed() ? 'grab' : '';
+	}
+
+	public destroy(): void {
+		this.cancelTween();
+		const element = this.target.element;
+		element.removeEventListener('wheel', this.boundWheel);
+		element.removeEventListener('pointerdown', this.boundPointerDown);
+		element.removeEventListener('pointermove', this.boundPointerMove);
+		window.removeEventListener('pointerup', this.boundPointerUp);
+		window.removeEventListener('pointercancel', this.boundPointerUp);
+		element.removeEventListener('dblclick', this.boundDoubleClick);
+		element.removeEventListener('click', this.boundClickCapture, true);
+		element.style.cursor = '';
+		element.style.touchAction = '';
+	}
+}